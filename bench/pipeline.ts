@@ -0,0 +1,149 @@
+/**
+ * Kyrin Benchmark - Request Pipeline
+ * Precompiled per-route pipeline vs. the code it replaced, which composed
+ * middleware on every request
+ *
+ * The baseline is the real `Kyrin` from git: `src/` at BENCH_BASELINE
+ * (default: the commit before this benchmark was added) is extracted to
+ * node_modules/.cache and both apps answer the same requests via `fetch`
+ *
+ * Each round runs one app in a fresh process (so neither JIT nor GC state
+ * leaks into the other), alternating; the medians are compared
+ *
+ * Run: bun run bench
+ */
+
+import { mkdirSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import type { Kyrin } from "../src/core/kyrin";
+
+const ITERATIONS = 100_000;
+const WARMUP = 20_000;
+const ROUNDS = 7;
+
+type KyrinModule = typeof import("../src/core/kyrin");
+
+// ==================== Baseline Checkout ====================
+
+function git(...args: string[]): string {
+  const result = Bun.spawnSync(["git", ...args], { cwd: import.meta.dir });
+  if (result.exitCode !== 0) {
+    throw new Error(`git ${args.join(" ")}: ${result.stderr.toString()}`);
+  }
+  return result.stdout.toString().trim();
+}
+
+/** Extract `src/` at a commit; returns the path of its kyrin.ts */
+function checkoutBaseline(ref: string): string {
+  const sha = git("rev-parse", "--verify", `${ref}^{commit}`);
+  const root = git("rev-parse", "--show-toplevel");
+  const dir = join(root, "node_modules", ".cache", "kyrin-bench", sha);
+
+  if (!existsSync(join(dir, "src"))) {
+    mkdirSync(dir, { recursive: true });
+    const archive = Bun.spawnSync(["git", "archive", sha, "src"], {
+      cwd: root,
+    });
+    const extract = Bun.spawnSync(["tar", "-x", "-C", dir], {
+      stdin: archive.stdout,
+    });
+    if (archive.exitCode !== 0 || extract.exitCode !== 0) {
+      throw new Error(`Could not extract src/ at ${ref}`);
+    }
+  }
+
+  console.log(`baseline: ${sha.slice(0, 7)}\n`);
+  return join(dir, "src", "core", "kyrin.ts");
+}
+
+// ==================== Shared Setup ====================
+
+/** Two middlewares, a request and a response hook, one param route */
+function setup(app: Kyrin): Kyrin {
+  return app
+    .use(async (c, next) => {
+      c.set.headers["X-Powered-By"] = "Kyrin";
+      await next();
+    })
+    .use(async (c, next) => {
+      c.store.start = 0;
+      await next();
+    })
+    .onRequest((c) => {
+      c.store.user = "bench";
+    })
+    .onResponse(() => {})
+    .get("/users/:id", (c) => ({ id: c.param("id") }));
+}
+
+// ==================== Worker ====================
+
+/** Load the Kyrin at `path` and print its nanoseconds per request */
+async function measure(path: string): Promise<void> {
+  // Same public API, possibly an older implementation
+  const module = (await import(path)) as KyrinModule;
+  const app = setup(new module.Kyrin());
+  const req = new Request("http://localhost/users/42");
+
+  const check = await app.fetch(req);
+  if (check.status !== 200) throw new Error(`status ${check.status}`);
+  for (let i = 0; i < WARMUP; i++) await app.fetch(req);
+
+  const start = Bun.nanoseconds();
+  for (let i = 0; i < ITERATIONS; i++) await app.fetch(req);
+  console.log((Bun.nanoseconds() - start) / ITERATIONS);
+}
+
+// ==================== Runner ====================
+
+function round(path: string): number {
+  const result = Bun.spawnSync([process.execPath, import.meta.path], {
+    env: { ...process.env, BENCH_TARGET: path },
+  });
+  if (result.exitCode !== 0) throw new Error(result.stderr.toString());
+  return Number(result.stdout.toString());
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)]!;
+}
+
+function report(name: string, nsPerReq: number): void {
+  const opsPerSec = Math.round(1e9 / nsPerReq).toLocaleString();
+  console.log(
+    `${name.padEnd(26)} ${opsPerSec.padStart(12)} req/s  ` +
+      `${nsPerReq.toFixed(0)} ns/req`
+  );
+}
+
+function compare(baseline: string, current: string): void {
+  const before: number[] = [];
+  const after: number[] = [];
+  for (let i = 0; i < ROUNDS; i++) {
+    before.push(round(baseline));
+    after.push(round(current));
+  }
+
+  report("per-request compose", median(before));
+  report("precompiled pipeline", median(after));
+
+  const ratio = median(before) / median(after);
+  console.log(
+    ratio >= 1
+      ? `\n${ratio.toFixed(2)}x faster`
+      : `\n${(1 / ratio).toFixed(2)}x slower`
+  );
+}
+
+if (process.env.BENCH_TARGET) {
+  await measure(process.env.BENCH_TARGET);
+} else {
+  const baselineRef =
+    process.env.BENCH_BASELINE ??
+    `${git("log", "--diff-filter=A", "--format=%H", "--", "pipeline.ts")}^`;
+  compare(
+    checkoutBaseline(baselineRef),
+    join(import.meta.dir, "..", "src", "core", "kyrin.ts")
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * Kyrin Framework - Typed Client
+ * Call an app's routes with types inferred from its route table
+ */
+
+import { appendQuery } from "../context/query";
+import type { Fetchable } from "../testing/test-client";
+import type { ClientOf, ClientOptions, ClientQuery } from "./types";
+
+const METHODS = new Set([
+  "get",
+  "post",
+  "put",
+  "delete",
+  "patch",
+  "options",
+  "head",
+]);
+
+interface ClientRequest {
+  params?: Record<string, string | number>;
+  query?: ClientQuery;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Error thrown when a route responds with a non-2xx status
+ * `body` holds the parsed response (e.g., Problem Details)
+ */
+export class ClientError extends Error {
+  readonly status: number;
+
+  constructor(
+    readonly response: Response,
+    readonly body: unknown
+  ) {
+    const detail =
+      body && typeof body === "object"
+        ? (body as { detail?: unknown; title?: unknown })
+        : {};
+    const message = detail.detail ?? detail.title ?? response.statusText;
+    super(
+      typeof message === "string" && message
+        ? message
+        : `HTTP ${response.status}`
+    );
+    this.name = "ClientError";
+    this.status = response.status;
+  }
+}
+
+/**
+ * Create a typed client for an app
+ * Routes must be chained on the app so its type carries them
+ *
+ * @example
+ * ```typescript
+ * const app = new Kyrin()
+ *   .get("/users/:id", (c) => ({ id: c.params.id, name: "John" }))
+ *   .post("/users", { body: z.object({ name: z.string() }) }, (c) => c.valid("body"));
+ *
+ * const client = createClient<typeof app>("http://localhost:3000");
+ * const user = await client.users[":id"].get({ params: { id: 1 } });
+ *
+ * // In-process (no server)
+ * const local = createClient<typeof app>(app);
+ * ```
+ */
+export function createClient<App>(
+  target: string | Fetchable,
+  options: ClientOptions = {}
+): ClientOf<App> {
+  const baseUrl =
+    typeof target === "string"
+      ? target.replace(/\/+$/, "")
+      : "http://localhost";
+  const send =
+    options.fetch ??
+    (typeof target === "string"
+      ? (req: Request) => fetch(req)
+      : (req: Request) => target.fetch(req));
+
+  const call = async (
+    method: string,
+    segments: string[],
+    input: ClientRequest = {},
+    init: RequestInit = {}
+  ): Promise<unknown> => {
+    const url = new URL(`${baseUrl}${buildPath(segments, input.params)}`);
+    appendQuery(url.searchParams, input.query ?? {});
+
+    const headers = new Headers({ ...options.headers, ...input.headers });
+    new Headers(init.headers).forEach((value, key) => headers.set(key, value));
+
+    let body: RequestInit["body"] = init.body;
+    if (input.body !== undefined) {
+      if (isRawBody(input.body)) {
+        body = input.body;
+      } else {
+        body = JSON.stringify(input.body);
+        if (!headers.has("Content-Type")) {
+          headers.set("Content-Type", "application/json");
+        }
+      }
+    }
+
+    const res = await send(
+      new Request(url.href, {
+        ...init,
+        method: method.toUpperCase(),
+        headers,
+        body,
+      })
+    );
+    const data = await readBody(res);
+    if (!res.ok) throw new ClientError(res, data);
+    return data;
+  };
+
+  const node = (segments: string[]): unknown =>
+    new Proxy(
+      {},
+      {
+        get(_, key) {
+          // Not a thenable, so a client node can be returned from async code
+          if (typeof key !== "string" || key === "then") return undefined;
+          if (METHODS.has(key)) {
+            return (input?: ClientRequest, init?: RequestInit) =>
+              call(key, segments, input, init);
+          }
+          return node([...segments, key]);
+        },
+      }
+    );
+
+  return node([]) as ClientOf<App>;
+}
+
+// ==================== Private Helpers ====================
+
+/** Fill `:name`, `*` and `*name` segments from params */
+function buildPath(
+  segments: string[],
+  params: Record<string, string | number> = {}
+): string {
+  const parts = segments.map((segment) => {
+    if (segment.startsWith("*")) {
+      return String(params[segment.slice(1) || "wildcard"] ?? "");
+    }
+    if (!segment.startsWith(":")) return encodeURIComponent(segment);
+
+    const name = segment.slice(1);
+    const value = params[name];
+    if (value === undefined) {
+      throw new TypeError(`Missing path param "${name}"`);
+    }
+    return encodeURIComponent(String(value));
+  });
+  return `/${parts.join("/")}`;
+}
+
+function isRawBody(body: unknown): body is NonNullable<RequestInit["body"]> {
+  return (
+    typeof body === "string" ||
+    body instanceof FormData ||
+    body instanceof URLSearchParams ||
+    body instanceof Blob ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    body instanceof ReadableStream
+  );
+}
+
+/** JSON when Content-Type is JSON, null for empty bodies, otherwise text */
+async function readBody(res: Response): Promise<unknown> {
+  const text = await res.text();
+  if (!text) return null;
+  const contentType = res.headers.get("Content-Type") ?? "";
+  return contentType.includes("json") ? JSON.parse(text) : text;
+}
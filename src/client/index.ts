@@ -0,0 +1,13 @@
+/**
+ * Kyrin Framework - Client Module
+ * End-to-end typed client for Kyrin apps
+ */
+
+export { createClient, ClientError } from "./client";
+export type {
+  ClientInput,
+  ClientMethod,
+  ClientOf,
+  ClientOptions,
+  ClientQuery,
+} from "./types";
@@ -0,0 +1,95 @@
+/**
+ * Kyrin Framework - Typed Client Types
+ * Maps an app's route table to a callable client shape
+ */
+
+import type { z } from "zod";
+import type { QueryValue } from "../context/query";
+import type { RouteEntry } from "../core/types";
+import type { PathParamNames } from "../router/path-params";
+
+export interface ClientOptions {
+  /**
+   * Fetch implementation (default: global `fetch`)
+   * Pass `app.fetch` to call an app in-process
+   */
+  fetch?: (req: Request) => Response | Promise<Response>;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+}
+
+/** Query values; arrays become repeated keys, objects `a[b]` keys */
+export type ClientQuery = Record<string, QueryValue>;
+
+/** Required key unless every field of `T` is optional */
+type Field<K extends string, T> = {} extends T
+  ? { [X in K]?: T }
+  : { [X in K]: T };
+
+type SchemaInput<S, K extends string, Fallback> = S extends {
+  [X in K]: infer T extends z.ZodType;
+}
+  ? z.input<T>
+  : Fallback;
+
+type PathParamsInput<P extends string> = [PathParamNames<P>] extends [never]
+  ? {}
+  : { [K in PathParamNames<P>]: string | number };
+
+/**
+ * Request input for a route: params from the path (or params schema),
+ * query, headers and body from the route schema
+ */
+export type ClientInput<P extends string, S> = Field<
+  "params",
+  SchemaInput<S, "params", PathParamsInput<P>>
+> &
+  Field<"query", SchemaInput<S, "query", ClientQuery>> &
+  Field<"headers", SchemaInput<S, "headers", Record<string, string>>> &
+  Field<"body", SchemaInput<S, "body", unknown>>;
+
+/** Client call for one route method, resolving to the handler's data */
+export type ClientMethod<P extends string, E> =
+  E extends RouteEntry<infer S, infer O>
+    ? {} extends ClientInput<P, S>
+      ? (input?: ClientInput<P, S>, init?: RequestInit) => Promise<O>
+      : (input: ClientInput<P, S>, init?: RequestInit) => Promise<O>
+    : never;
+
+type Segments<P extends string> = P extends `${infer Head}/${infer Rest}`
+  ? Head extends ""
+    ? Segments<Rest>
+    : [Head, ...Segments<Rest>]
+  : P extends ""
+    ? []
+    : [P];
+
+type Nest<Segs, Leaf> = Segs extends [
+  infer Head extends string,
+  ...infer Rest,
+]
+  ? { [K in Head]: Nest<Rest, Leaf> }
+  : Leaf;
+
+type UnionToIntersection<U> = (
+  U extends unknown ? (x: U) => void : never
+) extends (x: infer I) => void
+  ? I
+  : never;
+
+/**
+ * Client shape for an app: one property per path segment,
+ * ending in lowercase method calls
+ * @example
+ * // app.get("/users/:id", ...) → client.users[":id"].get({ params: { id: 1 } })
+ */
+export type ClientOf<App> = App extends { "~routes": infer Routes }
+  ? UnionToIntersection<
+      {
+        [P in keyof Routes & string]: Nest<
+          Segments<P>,
+          { [M in keyof Routes[P]]: ClientMethod<P, Routes[P][M]> }
+        >;
+      }[keyof Routes & string]
+    >
+  : never;
@@ -0,0 +1,145 @@
+/**
+ * Kyrin Framework - Request Body
+ * Size-limited reading and Content-Type based parsing of request bodies
+ */
+
+import type { MiddlewareHandler } from "../middleware/types";
+import { BadRequestError, PayloadTooLargeError } from "../errors/http-error";
+
+const decoder = new TextDecoder();
+
+/** Limits set by `bodyLimit()` middleware, known before it runs */
+export const bodyLimits = new WeakMap<MiddlewareHandler, number>();
+
+/**
+ * Reject a request whose declared Content-Length is over the limit
+ * (before anything is read)
+ */
+export function checkContentLength(req: Request, limit?: number): void {
+  if (limit === undefined) return;
+  const length = Number(req.headers.get("Content-Length"));
+  if (length > limit) {
+    throw new PayloadTooLargeError(`Request body exceeds ${limit} bytes`);
+  }
+}
+
+/**
+ * Body stream that errors with a 413 once more than `limit` bytes are read
+ * Covers chunked bodies and a Content-Length that lies
+ */
+export function limitStream(
+  stream: ReadableStream<Uint8Array>,
+  limit?: number
+): ReadableStream<Uint8Array> {
+  if (limit === undefined) return stream;
+  let size = 0;
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        size += chunk.byteLength;
+        if (size > limit) {
+          controller.error(
+            new PayloadTooLargeError(`Request body exceeds ${limit} bytes`)
+          );
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    })
+  );
+}
+
+/** Read a whole body, enforcing the limit */
+export async function readBytes(
+  req: Request,
+  limit?: number
+): Promise<Uint8Array<ArrayBuffer>> {
+  checkContentLength(req, limit);
+  if (!req.body) return new Uint8Array(0);
+  if (limit === undefined) return new Uint8Array(await req.arrayBuffer());
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of limitStream(req.body, limit)) {
+    chunks.push(chunk);
+    size += chunk.byteLength;
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+// ==================== Parsing ====================
+
+/**
+ * Parse body bytes by Content-Type
+ * - application/json, *+json → parsed JSON
+ * - urlencoded / multipart forms → object (files as `File`)
+ * - text/* → string
+ * - anything else → the bytes
+ * @throws BadRequestError for malformed JSON or forms
+ */
+export async function parseBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  contentType: string
+): Promise<unknown> {
+  const type = contentType.toLowerCase();
+  if (/^application\/([\w.-]+\+)?json\b/.test(type)) {
+    return parseJson(decoder.decode(bytes));
+  }
+  if (
+    type.startsWith("application/x-www-form-urlencoded") ||
+    type.startsWith("multipart/form-data")
+  ) {
+    return entriesToObject((await parseForm(bytes, contentType)).entries());
+  }
+  if (type.startsWith("text/")) {
+    return decoder.decode(bytes);
+  }
+  return bytes;
+}
+
+/** JSON.parse with a 400 for malformed input */
+export function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new BadRequestError("Malformed JSON body", { cause: error });
+  }
+}
+
+/** Decode a urlencoded or multipart body, with a 400 for malformed input */
+export async function parseForm(
+  bytes: Uint8Array<ArrayBuffer>,
+  contentType: string
+) {
+  try {
+    return await new Response(bytes, {
+      headers: { "Content-Type": contentType },
+    }).formData();
+  } catch (error) {
+    throw new BadRequestError("Malformed form body", { cause: error });
+  }
+}
+
+/** Repeated keys become arrays: ?tag=a&tag=b → { tag: ["a", "b"] } */
+function entriesToObject(
+  entries: Iterable<[string, unknown]>
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of entries) {
+    const existing = result[key];
+    if (existing === undefined) {
+      result[key] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      result[key] = [existing, value];
+    }
+  }
+  return result;
+}
@@ -3,23 +3,117 @@
  * Request/Response handling for route handlers
  */
 
-export class Context {
+import type {
+  ContextInput,
+  HttpMethod,
+  KyrinConfig,
+  KyrinServer,
+  Serializer,
+} from "../core/types";
+import type { ValidationTarget } from "../validator/types";
+import {
+  appendHeader,
+  mergeHeaders,
+  type HeaderValues,
+} from "../core/headers";
+import {
+  decryptCookieValue,
+  encryptCookieValue,
+  parseCookies,
+  serializeCookie,
+  signCookieValue,
+  unsignCookieValue,
+  type CookieOptions,
+} from "./cookies";
+import { parseBytes, parseForm, parseJson, readBytes } from "./body";
+import { parseQuery } from "./query";
+import { InternalServerError } from "../errors/http-error";
+import {
+  receiveUpload,
+  uploadToDisk,
+  type SinkFile,
+  type SinkUploadOptions,
+  type StoredFile,
+  type UploadOptions,
+  type UploadResult,
+} from "./upload";
+import {
+  SSEStream,
+  StreamWriter,
+  runStream,
+  type SSEOptions,
+  type StreamCallback,
+} from "./stream";
+
+/** Request body, read at most once and shared with mounted apps */
+interface BodyCache {
+  bytes?: Promise<Uint8Array<ArrayBuffer>>;
+  parsed?: Promise<unknown>;
+  upload?: Promise<UploadResult<unknown>>;
+}
+
+/** Params type for a context input */
+type ParamsOf<I> = I extends { params: infer P } ? P : Record<string, string>;
+
+const decoder = new TextDecoder();
+
+// Shared defaults (dispatch sets the app's own; saves allocations per request)
+const NO_SERIALIZERS: readonly Serializer[] = [];
+const NO_CONFIG: Readonly<KyrinConfig> = Object.freeze({});
+const NO_METHODS: readonly HttpMethod[] = [];
+const NO_EXTENSIONS: Readonly<Record<string, unknown>> = Object.freeze({});
+
+/**
+ * Request context
+ * `State` types `store` (see `Kyrin<State>`)
+ */
+export class Context<I extends ContextInput = {}, State extends object = {}> {
   readonly req: Request;
   private _url?: URL;
-  readonly params: Record<string, string>;
+  private _valid?: Partial<Record<ValidationTarget, unknown>>;
+  private _cookies?: Record<string, string>;
+  private _query?: Record<string, unknown>;
+  private _body?: BodyCache;
+  private _extensions?: Record<string, unknown>;
+
+  /** Path parameters (validated output when the route has a params schema) */
+  params: ParamsOf<I>;
 
   /** Shared store for middleware data */
-  store: Record<string, unknown> = {};
+  store = {} as State & Record<string, unknown>;
+
+  /** Serializers of the handling app (see `app.serializer()`) */
+  serializers: readonly Serializer[] = NO_SERIALIZERS;
+
+  /** Config of the handling app (cookie secret, ...) */
+  config: Readonly<KyrinConfig> = NO_CONFIG;
+
+  /**
+   * Max request body size in bytes for the body readers
+   * (from the `bodyLimit` config, or the `bodyLimit()` middleware per route)
+   */
+  bodyLimit?: number;
 
-  /** Response options (headers, status) */
+  /** Methods the path does allow (set on dispatch for 405 responses) */
+  allowedMethods: readonly HttpMethod[] = NO_METHODS;
+
+  /** Response options (status, headers; use an array for repeated headers) */
   set = {
     status: 200,
-    headers: {} as Record<string, string>,
+    headers: {} as HeaderValues,
   };
 
-  constructor(req: Request, params: Record<string, string> = {}) {
+  /** Running server (undefined for in-process requests) */
+  readonly server?: KyrinServer;
+
+  constructor(
+    req: Request,
+    params: Record<string, string> = {},
+    server?: KyrinServer
+  ) {
     this.req = req;
-    this.params = params;
+    this.params = params as ParamsOf<I>;
+    this.server = server;
   }
 
   // ==================== Request Properties ====================
@@ -46,36 +140,280 @@ export class Context {
     return this.req.headers.get(name);
   }
 
-  /** Get path parameter (e.g., :id) */
-  param(key: string): string | null {
-    return this.params[key] ?? null;
+  /**
+   * Get path parameter (e.g., :id)
+   * Keys are checked against the route path when it is a literal
+   */
+  param<K extends keyof ParamsOf<I> & string>(
+    key: K
+  ): string extends keyof ParamsOf<I> ? string | null : ParamsOf<I>[K] {
+    const value = (this.params as Record<string, unknown>)[key] ?? null;
+    return value as string extends keyof ParamsOf<I>
+      ? string | null
+      : ParamsOf<I>[K];
   }
 
-  /** Get query parameter (e.g., ?page=1) */
+  /** Get query parameter (e.g., ?page=1; first value when repeated) */
   query(key: string): string | null {
     return this.url.searchParams.get(key);
   }
 
+  /**
+   * All values of a query parameter, or of every parameter
+   * @example
+   * c.queries("tag"); // ?tag=a&tag=b → ["a", "b"]
+   * c.queries(); // { tag: ["a", "b"] }
+   */
+  queries(key: string): string[];
+  queries(): Record<string, string[]>;
+  queries(key?: string): string[] | Record<string, string[]> {
+    const params = this.url.searchParams;
+    if (key !== undefined) return params.getAll(key);
+    const result: Record<string, string[]> = {};
+    for (const [name, value] of params) (result[name] ??= []).push(value);
+    return result;
+  }
+
+  /**
+   * Query string as a nested object (validated output when the route has a
+   * query schema, with numbers, booleans and arrays coerced)
+   * @example
+   * // ?filter[status]=open&sort.by=date&tag=a&tag=b
+   * c.queryObject();
+   * // { filter: { status: "open" }, sort: { by: "date" }, tag: ["a", "b"] }
+   */
+  queryObject<
+    T = I extends { query: infer Q } ? Q : Record<string, unknown>,
+  >(): T {
+    if (this._valid && "query" in this._valid) {
+      return this._valid.query as T;
+    }
+    return (this._query ??= parseQuery(this.url.searchParams)) as T;
+  }
+
+  // ==================== Cookies ====================
+
+  /** Get a request cookie */
+  cookie(name: string): string | undefined {
+    return this.cookies()[name];
+  }
+
+  /** All request cookies */
+  cookies(): Record<string, string> {
+    return (this._cookies ??= parseCookies(this.req.headers.get("Cookie")));
+  }
+
+  /**
+   * Add a Set-Cookie header (can be called several times)
+   * @example
+   * c.setCookie("theme", "dark", { maxAge: 60 * 60 * 24 * 365 });
+   * c.setCookie("sid", id, { httpOnly: true, secure: true, sameSite: "Lax" });
+   */
+  setCookie(name: string, value: string, options?: CookieOptions): void {
+    appendHeader(
+      this.set.headers,
+      "Set-Cookie",
+      serializeCookie(name, value, options)
+    );
+  }
+
+  /** Expire a cookie (path and domain must match the ones it was set with) */
+  deleteCookie(
+    name: string,
+    options: Omit<CookieOptions, "maxAge" | "expires"> = {}
+  ): void {
+    this.setCookie(name, "", { ...options, maxAge: 0, expires: new Date(0) });
+  }
+
+  /**
+   * Get a cookie set with `setSignedCookie()`
+   * Undefined when missing or tampered with (needs `secret` in the app config)
+   */
+  async signedCookie(name: string): Promise<string | undefined> {
+    const value = this.cookie(name);
+    if (value === undefined) return undefined;
+    return unsignCookieValue(name, value, this.secrets());
+  }
+
+  /**
+   * Set a cookie signed with HMAC-SHA256 (readable, but not forgeable)
+   * @example
+   * await c.setSignedCookie("user", "42", { httpOnly: true });
+   */
+  async setSignedCookie(
+    name: string,
+    value: string,
+    options?: CookieOptions
+  ): Promise<void> {
+    const signed = await signCookieValue(name, value, this.secrets()[0]!);
+    this.setCookie(name, signed, options);
+  }
+
+  /**
+   * Get a cookie set with `setEncryptedCookie()`
+   * Undefined when missing, tampered with or encrypted with an unknown secret
+   */
+  async encryptedCookie(name: string): Promise<string | undefined> {
+    const value = this.cookie(name);
+    if (value === undefined) return undefined;
+    return decryptCookieValue(name, value, this.secrets());
+  }
+
+  /**
+   * Set a cookie encrypted with AES-256-GCM (not readable by the client)
+   * @example
+   * await c.setEncryptedCookie("prefs", JSON.stringify(prefs));
+   */
+  async setEncryptedCookie(
+    name: string,
+    value: string,
+    options?: CookieOptions
+  ): Promise<void> {
+    const encrypted = await encryptCookieValue(name, value, this.secrets()[0]!);
+    this.setCookie(name, encrypted, options);
+  }
+
   // ==================== Body Parsing ====================
+  // The body is read once and cached: every reader below can be called
+  // any number of times, from middleware and handlers alike
 
   /**
-   * Parse request body as JSON
+   * Parse request body as JSON (malformed JSON → 400)
    * @example
    * const data = await c.body<{ name: string }>();
    * const { name, email } = await c.body();
    */
-  async body<T = unknown>(): Promise<T> {
-    return (await this.req.json()) as T;
+  async body<T = I extends { body: infer B } ? B : unknown>(): Promise<T> {
+    if (this._valid && "body" in this._valid) return this._valid.body as T;
+    return parseJson(await this.text()) as T;
+  }
+
+  /**
+   * Parse request body by Content-Type
+   * - application/json → parsed JSON (malformed → 400)
+   * - urlencoded / multipart forms → object, repeated keys become arrays
+   * - text/* → string
+   * - anything else → Uint8Array
+   * @example
+   * const body = await c.parseBody<{ name: string }>();
+   */
+  parseBody<T = unknown>(): Promise<T> {
+    const contentType = this.header("Content-Type") ?? "";
+    return (this.bodyCache().parsed ??= this.bytes().then((bytes) =>
+      parseBytes(bytes, contentType)
+    )) as Promise<T>;
+  }
+
+  /**
+   * Raw request body bytes
+   * Rejects once `upload()` / `files()` streamed the body (use their result)
+   * @example
+   * const signature = hmac(secret, await c.bytes());
+   */
+  bytes(): Promise<Uint8Array<ArrayBuffer>> {
+    const cache = this.bodyCache();
+    if (cache.upload && !cache.bytes) {
+      return Promise.reject(
+        new InternalServerError(
+          "The request body was already streamed by c.upload() / c.files()"
+        )
+      );
+    }
+    return (cache.bytes ??= readBytes(this.req, this.bodyLimit));
   }
 
   /** Get request body as raw text */
   async text(): Promise<string> {
-    return await this.req.text();
+    return decoder.decode(await this.bytes());
   }
 
-  /** Get request body as FormData */
+  /** Get request body as FormData (buffered; see `upload()` for files) */
   async formData() {
-    return await this.req.formData();
+    return parseForm(await this.bytes(), this.header("Content-Type") ?? "");
+  }
+
+  /** Share the body with a mounted app's context (called on dispatch) */
+  shareBody(from: Context): void {
+    this._body = from.bodyCache();
+  }
+
+  // ==================== File Uploads ====================
+
+  /**
+   * Stream a multipart body: files go to a temp dir (or `dir`), fields are
+   * collected; limits are enforced while reading
+   * @example
+   * const { fields, files } = await c.upload({
+   *   maxFileSize: 10 * 1024 * 1024,
+   *   allowedTypes: ["image/*"],
+   * });
+   * await rename(files[0]!.path, `./uploads/${crypto.randomUUID()}`);
+   *
+   * // Custom destination
+   * await c.upload({ sink: (stream, file) => s3.put(file.filename, stream) });
+   */
+  upload(options?: UploadOptions): Promise<UploadResult<StoredFile>>;
+  upload<T>(options: SinkUploadOptions<T>): Promise<UploadResult<SinkFile<T>>>;
+  upload(
+    options: UploadOptions | SinkUploadOptions<unknown> = {}
+  ): Promise<UploadResult<unknown>> {
+    // The body can only be read once: later calls get the same result
+    return (this.bodyCache().upload ??= this.uploadSource().then(
+      (req): Promise<UploadResult<unknown>> =>
+        "sink" in options
+          ? receiveUpload(req, this.bodyLimit, options)
+          : uploadToDisk(req, this.bodyLimit, options)
+    ));
+  }
+
+  /**
+   * Uploaded files only (see `upload()`)
+   * @example
+   * const [avatar] = await c.files({ maxFiles: 1, allowedTypes: ["image/*"] });
+   */
+  files(options?: UploadOptions): Promise<StoredFile[]>;
+  files<T>(options: SinkUploadOptions<T>): Promise<SinkFile<T>[]>;
+  async files(
+    options?: UploadOptions | SinkUploadOptions<unknown>
+  ): Promise<unknown[]> {
+    return (await this.upload(options as UploadOptions)).files;
+  }
+
+  // ==================== Validation ====================
+
+  /**
+   * Get validated input for a route schema target
+   * @example
+   * app.get("/search", { query: z.object({ q: z.string() }) }, (c) => {
+   *   const { q } = c.valid("query");
+   * });
+   */
+  valid<K extends keyof I & ValidationTarget>(target: K): I[K] {
+    return this._valid?.[target] as I[K];
+  }
+
+  /** Store validated input (called by route validation) */
+  setValid(target: ValidationTarget, value: unknown): void {
+    (this._valid ??= {})[target] = value;
+    if (target === "params") {
+      this.params = value as ParamsOf<I>;
+    }
+  }
+
+  // ==================== Extension ====================
+
+  /** Values added by `decorate()` / `derive()` (passed on to mounted apps) */
+  get extensions(): Readonly<Record<string, unknown>> {
+    return this._extensions ?? NO_EXTENSIONS;
+  }
+
+  /**
+   * Add properties to the context
+   * Used by `app.decorate()` and `app.derive()`
+   */
+  extend(values: object): void {
+    Object.assign(this, values);
+    Object.assign((this._extensions ??= {}), values);
   }
 
   // ==================== Response Helpers ====================
@@ -84,7 +422,10 @@ export class Context {
   json<T = unknown>(data: T, status?: number): Response {
     return new Response(JSON.stringify(data), {
       status: status ?? this.set.status,
-      headers: { "Content-Type": "application/json", ...this.set.headers },
+      headers: mergeHeaders(
+        { "Content-Type": "application/json" },
+        this.set.headers
+      ),
     });
   }
 
@@ -92,7 +433,7 @@ export class Context {
   send(data: string, status?: number): Response {
     return new Response(data, {
       status: status ?? this.set.status,
-      headers: { "Content-Type": "text/plain", ...this.set.headers },
+      headers: mergeHeaders({ "Content-Type": "text/plain" }, this.set.headers),
     });
   }
 
@@ -100,25 +441,111 @@ export class Context {
   html(data: string, status?: number): Response {
     return new Response(data, {
       status: status ?? this.set.status,
-      headers: { "Content-Type": "text/html", ...this.set.headers },
+      headers: mergeHeaders({ "Content-Type": "text/html" }, this.set.headers),
+    });
+  }
+
+  // ==================== Streaming ====================
+
+  /**
+   * Stream binary data (write() waits for the client to keep up)
+   * @example
+   * return c.stream(async (stream) => {
+   *   for await (const chunk of source) await stream.write(chunk);
+   * });
+   */
+  stream(
+    callback: StreamCallback<StreamWriter>,
+    contentType = "application/octet-stream"
+  ): Response {
+    const stream = new StreamWriter(this.req.signal);
+    runStream(stream, callback);
+    return new Response(stream.readable, {
+      status: this.set.status,
+      headers: mergeHeaders({ "Content-Type": contentType }, this.set.headers),
+    });
+  }
+
+  /**
+   * Stream plain text
+   * @example
+   * return c.streamText(async (stream) => {
+   *   await stream.writeln("Hello");
+   *   await stream.sleep(100);
+   *   await stream.writeln("World");
+   * });
+   */
+  streamText(callback: StreamCallback<StreamWriter>): Response {
+    return this.stream(callback, "text/plain");
+  }
+
+  /**
+   * Server-Sent Events (sends keep-alive comments every 15s by default)
+   * @example
+   * return c.sse(async (stream) => {
+   *   stream.onAbort(() => unsubscribe());
+   *   await stream.send({ event: "update", id: 1, data: { ok: true } });
+   * });
+   */
+  sse(callback: StreamCallback<SSEStream>, options?: SSEOptions): Response {
+    const stream = new SSEStream(this.req.signal, options);
+    runStream(stream, callback);
+    return new Response(stream.readable, {
+      status: this.set.status,
+      headers: mergeHeaders(
+        {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        },
+        this.set.headers
+      ),
     });
   }
 
-  /** Redirect to another URL */
+  /** Redirect to another URL (keeps `c.set.headers`, e.g. cookies) */
   redirect(url: string, status = 302): Response {
     return new Response(null, {
       status,
-      headers: { Location: url },
+      headers: mergeHeaders(this.set.headers, { Location: url }),
     });
   }
 
   /** Return 404 Not Found */
   notFound(): Response {
-    return new Response("Not Found", { status: 404 });
+    return new Response("Not Found", {
+      status: 404,
+      headers: mergeHeaders(this.set.headers),
+    });
   }
 
   // ==================== Private ====================
 
+  /** The request to stream an upload from (a copy once the body was read) */
+  private async uploadSource(): Promise<Request> {
+    const bytes = this._body?.bytes;
+    if (!bytes) return this.req;
+    return new Request(this.req.url, {
+      method: this.req.method,
+      headers: this.req.headers,
+      body: await bytes,
+    });
+  }
+
+  /** Body reads of this request (shared with mounted apps) */
+  private bodyCache(): BodyCache {
+    return (this._body ??= {});
+  }
+
+  private secrets(): string[] {
+    const { secret } = this.config;
+    const secrets = typeof secret === "string" ? [secret] : (secret ?? []);
+    if (secrets.length === 0) {
+      throw new Error("Signed and encrypted cookies need a `secret` config");
+    }
+    return secrets;
+  }
+
   private get url(): URL {
     return (this._url ??= new URL(this.req.url));
   }
@@ -0,0 +1,240 @@
+/**
+ * Kyrin Framework - Cookies
+ * Cookie parsing/serialization with signed (HMAC) and encrypted (AES-GCM)
+ * values
+ */
+
+export interface CookieOptions {
+  domain?: string;
+  /** Default: "/" */
+  path?: string;
+  /** Lifetime in seconds (0 expires the cookie) */
+  maxAge?: number;
+  expires?: Date;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: "Strict" | "Lax" | "None" | "strict" | "lax" | "none";
+  /** CHIPS partitioned cookie (requires `secure`) */
+  partitioned?: boolean;
+}
+
+/** RFC 6265 cookie-name (token) */
+const COOKIE_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// ==================== Parse / Serialize ====================
+
+/**
+ * Parse a Cookie header (the first value of a repeated name wins)
+ * @example
+ * parseCookies("a=1; b=hello%20world"); // { a: "1", b: "hello world" }
+ */
+export function parseCookies(header: string | null): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const pair of header.split(";")) {
+    const index = pair.indexOf("=");
+    if (index === -1) continue;
+    const name = pair.slice(0, index).trim();
+    if (!name || name in cookies) continue;
+
+    let value = pair.slice(index + 1).trim();
+    if (value.length > 1 && value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Build a Set-Cookie header value
+ * @throws TypeError for invalid names or attribute combinations
+ * (`__Secure-` / `__Host-` prefixes, `SameSite=None` without `secure`)
+ */
+export function serializeCookie(
+  name: string,
+  value: string,
+  options: CookieOptions = {}
+): string {
+  if (!COOKIE_NAME.test(name)) {
+    throw new TypeError(`Invalid cookie name "${name}"`);
+  }
+  const { path = "/", domain, maxAge, expires, sameSite } = options;
+  const secure = options.secure ?? false;
+
+  if (name.startsWith("__Secure-") && !secure) {
+    throw new TypeError(`Cookie "${name}" requires the secure option`);
+  }
+  if (name.startsWith("__Host-") && (!secure || path !== "/" || domain)) {
+    throw new TypeError(
+      `Cookie "${name}" requires secure, path "/" and no domain`
+    );
+  }
+  if ((sameSite?.toLowerCase() === "none" || options.partitioned) && !secure) {
+    throw new TypeError(`Cookie "${name}" requires the secure option`);
+  }
+
+  const parts = [`${name}=${encodeURIComponent(value)}`];
+  if (maxAge !== undefined) parts.push(`Max-Age=${Math.floor(maxAge)}`);
+  if (domain) parts.push(`Domain=${domain}`);
+  parts.push(`Path=${path}`);
+  if (expires) parts.push(`Expires=${expires.toUTCString()}`);
+  if (options.httpOnly) parts.push("HttpOnly");
+  if (secure) parts.push("Secure");
+  if (sameSite) {
+    const normalized = sameSite.toLowerCase();
+    parts.push(
+      `SameSite=${normalized[0]!.toUpperCase()}${normalized.slice(1)}`
+    );
+  }
+  if (options.partitioned) parts.push("Partitioned");
+  return parts.join("; ");
+}
+
+// ==================== Signed / Encrypted Values ====================
+
+/** Keys derived per secret and purpose (HKDF-SHA256) */
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+function deriveKey(secret: string, purpose: "sign" | "encrypt") {
+  const cacheKey = `${purpose}:${secret}`;
+  let key = keyCache.get(cacheKey);
+  if (!key) {
+    key = crypto.subtle
+      .importKey("raw", encoder.encode(secret), "HKDF", false, ["deriveKey"])
+      .then((base) =>
+        crypto.subtle.deriveKey(
+          {
+            name: "HKDF",
+            hash: "SHA-256",
+            salt: new Uint8Array(0),
+            info: encoder.encode(`kyrin-cookie-${purpose}`),
+          },
+          base,
+          purpose === "sign"
+            ? { name: "HMAC", hash: "SHA-256", length: 256 }
+            : { name: "AES-GCM", length: 256 },
+          false,
+          purpose === "sign" ? ["sign", "verify"] : ["encrypt", "decrypt"]
+        )
+      );
+    keyCache.set(cacheKey, key);
+  }
+  return key;
+}
+
+/**
+ * Sign a cookie value: `value.signature`
+ * The cookie name is part of the signed data, so values can't be swapped
+ */
+export async function signCookieValue(
+  name: string,
+  value: string,
+  secret: string
+): Promise<string> {
+  const key = await deriveKey(secret, "sign");
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${name}=${value}`)
+  );
+  return `${value}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a signed value against each secret
+ * @returns the original value, or undefined if the signature doesn't match
+ */
+export async function unsignCookieValue(
+  name: string,
+  signed: string,
+  secrets: string[]
+): Promise<string | undefined> {
+  const index = signed.lastIndexOf(".");
+  if (index === -1) return undefined;
+  const value = signed.slice(0, index);
+  const signature = fromBase64Url(signed.slice(index + 1));
+  if (!signature) return undefined;
+
+  for (const secret of secrets) {
+    const key = await deriveKey(secret, "sign");
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      signature,
+      encoder.encode(`${name}=${value}`)
+    );
+    if (valid) return value;
+  }
+  return undefined;
+}
+
+/** Encrypt a cookie value with AES-256-GCM: base64url(iv + ciphertext) */
+export async function encryptCookieValue(
+  name: string,
+  value: string,
+  secret: string
+): Promise<string> {
+  const key = await deriveKey(secret, "encrypt");
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: encoder.encode(name) },
+    key,
+    encoder.encode(value)
+  );
+  const payload = new Uint8Array(iv.length + ciphertext.byteLength);
+  payload.set(iv);
+  payload.set(new Uint8Array(ciphertext), iv.length);
+  return toBase64Url(payload);
+}
+
+/**
+ * Decrypt a value with each secret
+ * @returns the plaintext, or undefined if it can't be decrypted
+ */
+export async function decryptCookieValue(
+  name: string,
+  encrypted: string,
+  secrets: string[]
+): Promise<string | undefined> {
+  const payload = fromBase64Url(encrypted);
+  if (!payload || payload.length <= 12) return undefined;
+  const iv = payload.slice(0, 12);
+  const ciphertext = payload.slice(12);
+
+  for (const secret of secrets) {
+    const key = await deriveKey(secret, "encrypt");
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv, additionalData: encoder.encode(name) },
+        key,
+        ciphertext
+      );
+      return decoder.decode(plaintext);
+    } catch {
+      // Wrong key or tampered value: try the next secret
+    }
+  }
+  return undefined;
+}
+
+// ==================== Private Helpers ====================
+
+function toBase64Url(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("base64url");
+}
+
+function fromBase64Url(
+  text: string
+): Uint8Array<ArrayBuffer> | undefined {
+  if (!/^[A-Za-z0-9_-]+$/.test(text)) return undefined;
+  return new Uint8Array(Buffer.from(text, "base64url"));
+}
@@ -4,3 +4,18 @@
  */
 
 export { Context } from "./context";
+export { StreamWriter, SSEStream } from "./stream";
+export type { SSEMessage, SSEOptions, StreamCallback } from "./stream";
+export { parseCookies, serializeCookie } from "./cookies";
+export type { CookieOptions } from "./cookies";
+export { parseQuery, appendQuery } from "./query";
+export type { QueryOptions, QueryValue } from "./query";
+export type {
+  UploadOptions,
+  SinkUploadOptions,
+  UploadSink,
+  UploadedFile,
+  StoredFile,
+  SinkFile,
+  UploadResult,
+} from "./upload";
@@ -0,0 +1,180 @@
+/**
+ * Kyrin Framework - Multipart Parser
+ * Streaming multipart/form-data parsing (parts are never fully buffered)
+ */
+
+import { BadRequestError } from "../errors/http-error";
+
+/** One part of a multipart body */
+export interface MultipartPart {
+  /** Form field name */
+  name: string;
+  /** Client file name (only for file parts) */
+  filename?: string;
+  /** Declared Content-Type (default: "text/plain" for fields) */
+  type: string;
+  /** Part contents; must be consumed before the next part is read */
+  body: AsyncIterable<Uint8Array>;
+}
+
+/** Max size of the headers of one part */
+const MAX_HEADER_SIZE = 16 * 1024;
+
+const CRLF = Buffer.from("\r\n");
+const HEADER_END = Buffer.from("\r\n\r\n");
+const CLOSE = Buffer.from("--");
+
+/** Boundary from a multipart Content-Type, undefined for other types */
+export function multipartBoundary(contentType: string): string | undefined {
+  if (!/^multipart\/form-data\b/i.test(contentType)) return undefined;
+  const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  return match?.[1] ?? match?.[2];
+}
+
+/**
+ * Parse a multipart body part by part
+ * @throws BadRequestError for malformed bodies
+ * @example
+ * for await (const part of parseMultipart(req.body, boundary)) {
+ *   for await (const chunk of part.body) sink.write(chunk);
+ * }
+ */
+export async function* parseMultipart(
+  stream: ReadableStream<Uint8Array>,
+  boundary: string
+): AsyncGenerator<MultipartPart> {
+  const reader = stream.getReader();
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  // The first delimiter has no leading CRLF
+  let buffer: Buffer = Buffer.from(CRLF);
+  let ended = false;
+
+  const fill = async (): Promise<void> => {
+    if (ended) throw new BadRequestError("Unexpected end of multipart body");
+    const { value, done } = await reader.read();
+    if (done) {
+      ended = true;
+      return;
+    }
+    const chunk = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+  };
+
+  try {
+    // Skip the preamble
+    let start = buffer.indexOf(delimiter);
+    while (start === -1) {
+      buffer = buffer.subarray(Math.max(0, buffer.length - delimiter.length));
+      await fill();
+      start = buffer.indexOf(delimiter);
+    }
+    buffer = buffer.subarray(start);
+
+    while (true) {
+      // buffer starts with a delimiter
+      while (buffer.length < delimiter.length + 2) await fill();
+      const after = buffer.subarray(delimiter.length, delimiter.length + 2);
+      if (after.equals(CLOSE)) return;
+
+      let headerEnd = buffer.indexOf(HEADER_END, delimiter.length);
+      while (headerEnd === -1) {
+        if (buffer.length > MAX_HEADER_SIZE) {
+          throw new BadRequestError("Multipart headers too large");
+        }
+        await fill();
+        headerEnd = buffer.indexOf(HEADER_END, delimiter.length);
+      }
+      const headers = parseHeaders(
+        buffer.subarray(delimiter.length + CRLF.length, headerEnd).toString()
+      );
+      buffer = buffer.subarray(headerEnd + HEADER_END.length);
+
+      const disposition = parseParams(headers["content-disposition"] ?? "");
+      if (disposition.name === undefined) {
+        throw new BadRequestError("Multipart part without a name");
+      }
+
+      let done = false;
+      const body = async function* (): AsyncGenerator<Uint8Array> {
+        while (true) {
+          const index = buffer.indexOf(delimiter);
+          if (index !== -1) {
+            const chunk = buffer.subarray(0, index);
+            buffer = buffer.subarray(index);
+            done = true;
+            if (chunk.length) yield chunk;
+            return;
+          }
+          // Keep a tail that could be the start of the delimiter
+          const safe = buffer.length - delimiter.length + 1;
+          if (safe > 0) {
+            const chunk = buffer.subarray(0, safe);
+            buffer = buffer.subarray(safe);
+            yield chunk;
+          }
+          await fill();
+        }
+      };
+      const iterator = body();
+
+      yield {
+        name: disposition.name,
+        filename: disposition.filename,
+        type:
+          headers["content-type"] ??
+          (disposition.filename === undefined
+            ? "text/plain"
+            : "application/octet-stream"),
+        // No `return()`: a consumer stopping early must not end the parser
+        body: {
+          [Symbol.asyncIterator]: () => ({ next: () => iterator.next() }),
+        },
+      };
+      // Skip what the consumer didn't read
+      while (!done) {
+        if ((await iterator.next()).done) break;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// ==================== Private Helpers ====================
+
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split("\r\n")) {
+    const index = line.indexOf(":");
+    if (index === -1) continue;
+    headers[line.slice(0, index).trim().toLowerCase()] = line
+      .slice(index + 1)
+      .trim();
+  }
+  return headers;
+}
+
+/**
+ * Parameters of a Content-Disposition header
+ * `filename*` (RFC 5987) takes precedence over `filename`
+ */
+function parseParams(header: string): Record<string, string | undefined> {
+  const params: Record<string, string | undefined> = {};
+  const pattern = /;\s*([^=;\s]+)\s*=\s*(?:"((?:\\.|[^"\\])*)"|([^;]*))/g;
+  for (const match of header.matchAll(pattern)) {
+    const key = match[1]!.toLowerCase();
+    const value = match[2]?.replace(/\\(.)/g, "$1") ?? match[3]!.trim();
+    params[key] = value;
+  }
+
+  const extended = params["filename*"];
+  if (extended) {
+    const match = /^([\w-]+)'[^']*'(.*)$/.exec(extended);
+    try {
+      if (match) params.filename = decodeURIComponent(match[2]!);
+    } catch {
+      // Keep the plain filename
+    }
+  }
+  return params;
+}
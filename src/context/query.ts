@@ -0,0 +1,199 @@
+/**
+ * Kyrin Framework - Query Strings
+ * Nested query parsing: ?filter[status]=open&sort.by=date&tag=a&tag=b
+ */
+
+export interface QueryOptions {
+  /** Max nesting depth; deeper keys stay literal (default: 5) */
+  depth?: number;
+  /** Highest index kept as an array position (default: 20) */
+  arrayLimit?: number;
+}
+
+/** Query value for `appendQuery`: objects become `a[b]` keys */
+export type QueryValue =
+  | string
+  | number
+  | boolean
+  | bigint
+  | Date
+  | undefined
+  | QueryValue[]
+  | { [key: string]: QueryValue };
+
+/** Keys that would reach the prototype of the result */
+const FORBIDDEN = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Parse query parameters into an object
+ * - `a[b]=1` and `a.b=1` → `{ a: { b: "1" } }`
+ * - `tag=a&tag=b` and `tag[]=a&tag[]=b` → `{ tag: ["a", "b"] }`
+ * - `items[0][id]=1` → `{ items: [{ id: "1" }] }`
+ * Values stay strings (route query schemas coerce them)
+ * @example
+ * parseQuery(new URLSearchParams("filter[status]=open&page=2"));
+ * // { filter: { status: "open" }, page: "2" }
+ */
+export function parseQuery(
+  params: URLSearchParams,
+  options: QueryOptions = {}
+): Record<string, unknown> {
+  const { depth = 5, arrayLimit = 20 } = options;
+  const root: Record<string, unknown> = {};
+
+  for (const [key, value] of params) {
+    const path = splitKey(key, depth);
+    if (path.some((segment) => FORBIDDEN.has(segment))) continue;
+
+    let container: Record<string, unknown> | unknown[] = root;
+    for (let i = 0; i < path.length - 1; i++) {
+      const segment = path[i]!;
+      const wantsArray = isIndex(path[i + 1]!, arrayLimit);
+      let child = get(container, segment);
+      if (Array.isArray(child) && !wantsArray) {
+        child = { ...child };
+      } else if (typeof child !== "object" || child === null) {
+        // A nested key replaces a plain value: a=1&a[b]=2 → { a: { b: "2" } }
+        child = wantsArray ? [] : {};
+      }
+      set(container, segment, child);
+      container = child as Record<string, unknown> | unknown[];
+    }
+    assign(container, path[path.length - 1]!, value);
+  }
+
+  return compact(root) as Record<string, unknown>;
+}
+
+/**
+ * Append a (nested) query object to URL parameters, the way `parseQuery`
+ * reads it back: objects as `a[b]`, arrays as repeated keys (`a[0][b]` for
+ * arrays of objects), dates as ISO strings; undefined values are skipped
+ * @example
+ * appendQuery(url.searchParams, { filter: { status: "open" }, tag: ["a"] });
+ * // ?filter[status]=open&tag=a
+ */
+export function appendQuery(
+  params: URLSearchParams,
+  query: Record<string, QueryValue>,
+  prefix?: string
+): void {
+  for (const [key, value] of Object.entries(query)) {
+    const name = prefix === undefined ? key : `${prefix}[${key}]`;
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => {
+        if (isPlainObject(item)) appendQuery(params, item, `${name}[${i}]`);
+        else if (item !== undefined) params.append(name, stringify(item));
+      });
+    } else if (isPlainObject(value)) {
+      appendQuery(params, value, name);
+    } else {
+      params.append(name, stringify(value));
+    }
+  }
+}
+
+// ==================== Private Helpers ====================
+
+/** "a[b][]" → ["a", "b", ""], "a.b" → ["a", "b"] */
+function splitKey(key: string, depth: number): string[] {
+  const first = /^[^[.]+/.exec(key)?.[0];
+  if (first === undefined) return [key];
+
+  const path = [first];
+  const segment = /^(?:\[([^\]]*)\]|\.([^[.]+))/;
+  let rest = key.slice(first.length);
+  while (rest) {
+    if (path.length > depth) {
+      path.push(rest);
+      break;
+    }
+    const match = segment.exec(rest);
+    // Unbalanced brackets: keep the key as written
+    if (!match) return [key];
+    path.push(match[1] ?? match[2]!);
+    rest = rest.slice(match[0].length);
+  }
+  return path;
+}
+
+/** "" (push) or a small non-negative integer */
+function isIndex(segment: string, arrayLimit: number): boolean {
+  return (
+    segment === "" ||
+    (/^(0|[1-9]\d*)$/.test(segment) && Number(segment) <= arrayLimit)
+  );
+}
+
+function get(
+  container: Record<string, unknown> | unknown[],
+  segment: string
+): unknown {
+  if (Array.isArray(container)) {
+    return segment === "" ? undefined : container[Number(segment)];
+  }
+  return Object.hasOwn(container, segment) ? container[segment] : undefined;
+}
+
+/** Store a child (arrays only ever get index segments) */
+function set(
+  container: Record<string, unknown> | unknown[],
+  segment: string,
+  child: unknown
+): void {
+  if (!Array.isArray(container)) container[segment] = child;
+  else if (segment === "") container.push(child);
+  else container[Number(segment)] = child;
+}
+
+/** Set a leaf value; repeated keys collect into an array */
+function assign(
+  container: Record<string, unknown> | unknown[],
+  segment: string,
+  value: string
+): void {
+  if (Array.isArray(container)) {
+    set(container, segment, value);
+    return;
+  }
+  const existing = Object.hasOwn(container, segment)
+    ? container[segment]
+    : undefined;
+  if (existing === undefined) {
+    container[segment] = value;
+  } else if (Array.isArray(existing)) {
+    existing.push(value);
+  } else if (typeof existing === "string") {
+    container[segment] = [existing, value];
+  }
+}
+
+/** Drop the holes of sparse arrays: a[1]=x → { a: ["x"] } */
+function compact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.filter((item) => item !== undefined).map(compact);
+  }
+  if (typeof value === "object" && value !== null) {
+    for (const key of Object.keys(value)) {
+      const record = value as Record<string, unknown>;
+      record[key] = compact(record[key]);
+    }
+  }
+  return value;
+}
+
+function isPlainObject(
+  value: unknown
+): value is Record<string, QueryValue> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+function stringify(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
@@ -0,0 +1,204 @@
+/**
+ * Kyrin Framework - Streaming
+ * Stream writers for c.stream(), c.streamText() and c.sse()
+ */
+
+const encoder = new TextEncoder();
+
+/** Stream callback; the stream closes when it resolves */
+export type StreamCallback<W extends StreamWriter> = (
+  stream: W
+) => void | Promise<void>;
+
+/**
+ * Stream writer with backpressure and abort detection
+ * `write()` resolves once the consumer is ready for more data
+ */
+export class StreamWriter {
+  /** Readable side (used as the Response body) */
+  readonly readable: ReadableStream<Uint8Array>;
+
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private abortHandlers: (() => void | Promise<void>)[] = [];
+  private _aborted = false;
+  private _closed = false;
+
+  constructor(signal?: AbortSignal) {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    this.readable = readable;
+    this.writer = writable.getWriter();
+
+    // Client disconnected
+    this.writer.closed.catch(() => this.abort());
+    signal?.addEventListener("abort", () => this.abort(), { once: true });
+  }
+
+  /** True once the client has disconnected */
+  get aborted(): boolean {
+    return this._aborted;
+  }
+
+  /** True once the stream is closed */
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  /** Write a chunk (strings are UTF-8 encoded) */
+  async write(chunk: string | Uint8Array): Promise<void> {
+    if (this._closed) return;
+    const data = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+    try {
+      await this.writer.ready;
+      await this.writer.write(data);
+    } catch {
+      this.abort();
+    }
+  }
+
+  /** Write a line of text */
+  writeln(text: string): Promise<void> {
+    return this.write(`${text}\n`);
+  }
+
+  /** Wait for ms (resolves early if the client disconnects) */
+  sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      this.onAbort(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+
+  /** Run a callback when the client disconnects */
+  onAbort(handler: () => void | Promise<void>): void {
+    if (this._aborted) void handler();
+    else this.abortHandlers.push(handler);
+  }
+
+  /** Close the stream */
+  async close(): Promise<void> {
+    if (this._closed) return;
+    this._closed = true;
+    try {
+      await this.writer.close();
+    } catch {
+      // Already closed by the client
+    }
+  }
+
+  private abort(): void {
+    if (this._aborted) return;
+    this._aborted = true;
+    this._closed = true;
+    for (const handler of this.abortHandlers) void handler();
+    this.abortHandlers = [];
+  }
+}
+
+// ==================== Server-Sent Events ====================
+
+/** A single Server-Sent Event */
+export interface SSEMessage {
+  /** Event payload (non-strings are JSON encoded) */
+  data: unknown;
+  /** Event name (`event:` field) */
+  event?: string;
+  /** Event id (`id:` field, sent back as Last-Event-ID) */
+  id?: string | number;
+  /** Reconnection delay in ms (`retry:` field) */
+  retry?: number;
+}
+
+export interface SSEOptions {
+  /** Interval (ms) for keep-alive comments, 0 to disable (default: 15000) */
+  heartbeat?: number;
+}
+
+/** Any line ending the event stream format accepts */
+const LINE_BREAK = /\r\n|\r|\n/;
+
+function singleLine(field: string, value: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new TypeError(`SSE ${field} must not contain line breaks`);
+  }
+  return value;
+}
+
+/**
+ * Server-Sent Events stream
+ * @example
+ * return c.sse(async (stream) => {
+ *   while (!stream.aborted) {
+ *     await stream.send({ event: "tick", data: { now: Date.now() } });
+ *     await stream.sleep(1000);
+ *   }
+ * });
+ */
+export class SSEStream extends StreamWriter {
+  private heartbeat?: Timer;
+
+  constructor(signal?: AbortSignal, options: SSEOptions = {}) {
+    super(signal);
+    const interval = options.heartbeat ?? 15_000;
+    if (interval > 0) {
+      this.heartbeat = setInterval(() => void this.comment("ping"), interval);
+      this.onAbort(() => clearInterval(this.heartbeat));
+    }
+  }
+
+  /**
+   * Send an event
+   * Line breaks in `event` or `id` reject (they would start a new field);
+   * `data` is sent as one `data:` line per line
+   */
+  async send(message: SSEMessage): Promise<void> {
+    let frame = "";
+    if (message.event !== undefined) {
+      frame += `event: ${singleLine("event", message.event)}\n`;
+    }
+    if (message.id !== undefined) {
+      frame += `id: ${singleLine("id", String(message.id))}\n`;
+    }
+    if (message.retry !== undefined) frame += `retry: ${message.retry}\n`;
+
+    const data =
+      typeof message.data === "string"
+        ? message.data
+        : JSON.stringify(message.data);
+    for (const line of data.split(LINE_BREAK)) frame += `data: ${line}\n`;
+
+    return this.write(`${frame}\n`);
+  }
+
+  /** Send a comment (ignored by clients) */
+  comment(text: string): Promise<void> {
+    const lines = text.split(LINE_BREAK).map((line) => `: ${line}\n`);
+    return this.write(`${lines.join("")}\n`);
+  }
+
+  override async close(): Promise<void> {
+    clearInterval(this.heartbeat);
+    await super.close();
+  }
+}
+
+/**
+ * Run a stream callback in the background and close the stream after it
+ * Errors after the client disconnected are ignored
+ */
+export function runStream<W extends StreamWriter>(
+  stream: W,
+  callback: StreamCallback<W>
+): void {
+  void (async () => {
+    try {
+      await callback(stream);
+    } catch (error) {
+      if (!stream.aborted) console.error("Stream Error:", error);
+    } finally {
+      await stream.close();
+    }
+  })();
+}
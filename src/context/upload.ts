@@ -0,0 +1,228 @@
+/**
+ * Kyrin Framework - File Uploads
+ * Streams multipart files to disk or a custom sink with size/type limits
+ */
+
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { extname, join } from "node:path";
+import {
+  BadRequestError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+} from "../errors/http-error";
+import { checkContentLength, limitStream } from "./body";
+import { multipartBoundary, parseMultipart } from "./multipart";
+
+export interface UploadOptions {
+  /** Directory files are written to (default: the OS temp dir) */
+  dir?: string;
+  /** Max size of each file in bytes (413) */
+  maxFileSize?: number;
+  /** Max number of files (413) */
+  maxFiles?: number;
+  /** Max size of each non-file field in bytes (default: 1 MiB) */
+  maxFieldSize?: number;
+  /** Accepted file types, wildcards allowed: ["image/*", "application/pdf"] */
+  allowedTypes?: string[];
+}
+
+export interface SinkUploadOptions<T> extends Omit<UploadOptions, "dir"> {
+  /** Receives each file instead of writing it to `dir` */
+  sink: UploadSink<T>;
+}
+
+/**
+ * Custom file destination (S3, hashing, ...)
+ * What it returns is available as `file.result`
+ */
+export type UploadSink<T> = (
+  stream: ReadableStream<Uint8Array>,
+  file: Omit<UploadedFile, "size">
+) => T | Promise<T>;
+
+/** File received from a multipart body */
+export interface UploadedFile {
+  /** Form field name */
+  field: string;
+  /** File name sent by the client (don't use it as a path) */
+  filename: string;
+  /** Content-Type sent by the client */
+  type: string;
+  /** Size in bytes */
+  size: number;
+}
+
+/** File written to the upload directory */
+export interface StoredFile extends UploadedFile {
+  path: string;
+}
+
+/** File handed to a custom sink */
+export interface SinkFile<T> extends UploadedFile {
+  result: T;
+}
+
+export interface UploadResult<F> {
+  /** Non-file fields (repeated names become arrays) */
+  fields: Record<string, string | string[]>;
+  files: F[];
+}
+
+const decoder = new TextDecoder();
+
+/**
+ * Write uploaded files to a directory
+ * Files written so far are deleted if the upload fails
+ */
+export async function uploadToDisk(
+  req: Request,
+  limit: number | undefined,
+  options: UploadOptions
+): Promise<UploadResult<StoredFile>> {
+  const dir = options.dir ?? tmpdir();
+  const written: string[] = [];
+
+  try {
+    const { fields, files } = await receiveUpload(req, limit, {
+      ...options,
+      sink: async (stream, file) => {
+        const name = `kyrin-${crypto.randomUUID()}${extension(file)}`;
+        const path = join(dir, name);
+        written.push(path);
+        await Bun.write(path, new Response(stream));
+        return path;
+      },
+    });
+    return {
+      fields,
+      files: files.map(({ result, ...file }) => ({ ...file, path: result })),
+    };
+  } catch (error) {
+    await Promise.all(written.map((path) => rm(path, { force: true })));
+    throw error;
+  }
+}
+
+/**
+ * Stream uploaded files to a sink, one at a time
+ * - Not multipart → 415
+ * - Body, file or field over its limit, too many files → 413
+ * - File type not allowed → 415
+ */
+export async function receiveUpload<T>(
+  req: Request,
+  limit: number | undefined,
+  options: SinkUploadOptions<T>
+): Promise<UploadResult<SinkFile<T>>> {
+  const { maxFileSize, maxFiles, maxFieldSize = 1024 * 1024 } = options;
+  const boundary = multipartBoundary(req.headers.get("Content-Type") ?? "");
+  if (!boundary) {
+    throw new UnsupportedMediaTypeError("Expected multipart/form-data");
+  }
+  checkContentLength(req, limit);
+  if (!req.body) throw new BadRequestError("Missing request body");
+
+  const fields: Record<string, string | string[]> = {};
+  const files: SinkFile<T>[] = [];
+
+  for await (const part of parseMultipart(
+    limitStream(req.body, limit),
+    boundary
+  )) {
+    if (part.filename === undefined) {
+      const value = await readField(part.body, part.name, maxFieldSize);
+      const existing = fields[part.name];
+      fields[part.name] =
+        existing === undefined
+          ? value
+          : [...(typeof existing === "string" ? [existing] : existing), value];
+      continue;
+    }
+    // Empty file inputs are sent with an empty filename
+    if (part.filename === "") continue;
+
+    if (maxFiles !== undefined && files.length >= maxFiles) {
+      throw new PayloadTooLargeError(`Too many files (max ${maxFiles})`);
+    }
+    if (options.allowedTypes && !isAllowed(part.type, options.allowedTypes)) {
+      throw new UnsupportedMediaTypeError(
+        `File type "${part.type}" is not allowed`
+      );
+    }
+
+    const file = { field: part.name, filename: part.filename, type: part.type };
+    const chunks = part.body[Symbol.asyncIterator]();
+    let size = 0;
+    let failure: unknown;
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await chunks.next();
+          if (done) return controller.close();
+          size += value.byteLength;
+          if (maxFileSize !== undefined && size > maxFileSize) {
+            throw new PayloadTooLargeError(
+              `File "${part.filename}" exceeds ${maxFileSize} bytes`
+            );
+          }
+          controller.enqueue(value);
+        } catch (error) {
+          failure = error;
+          controller.error(error);
+        }
+      },
+    });
+
+    let result: T;
+    try {
+      result = await options.sink(stream, file);
+    } catch (error) {
+      // Report the limit (or parse) error rather than the sink's
+      throw failure ?? error;
+    }
+    if (failure) throw failure;
+    files.push({ ...file, size, result });
+  }
+
+  return { fields, files };
+}
+
+// ==================== Private Helpers ====================
+
+async function readField(
+  body: AsyncIterable<Uint8Array>,
+  name: string,
+  maxSize: number
+): Promise<string> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of body) {
+    size += chunk.byteLength;
+    if (size > maxSize) {
+      throw new PayloadTooLargeError(
+        `Field "${name}" exceeds ${maxSize} bytes`
+      );
+    }
+    chunks.push(chunk);
+  }
+  return decoder.decode(Buffer.concat(chunks));
+}
+
+/** "image/png" matches "image/png", "image/*" and "*\/*" */
+function isAllowed(type: string, allowed: string[]): boolean {
+  const [base = ""] = type.toLowerCase().split(";");
+  const mime = base.trim();
+  return allowed.some((pattern) => {
+    const lower = pattern.toLowerCase();
+    if (lower === "*/*") return true;
+    if (lower.endsWith("/*")) return mime.startsWith(lower.slice(0, -1));
+    return mime === lower;
+  });
+}
+
+/** Extension of the client file name, if it looks harmless */
+function extension(file: { filename: string }): string {
+  const ext = extname(file.filename);
+  return /^\.[A-Za-z0-9]{1,10}$/.test(ext) ? ext.toLowerCase() : "";
+}
@@ -0,0 +1,53 @@
+/**
+ * Kyrin Framework - Response Headers
+ * Header records with multi-value support (e.g., several Set-Cookie)
+ */
+
+/** Response headers; an array sends one header line per value */
+export type HeaderValues = Record<string, string | string[]>;
+
+/**
+ * Merge header records into a Headers object
+ * Later sources override earlier ones (case-insensitive); arrays are appended
+ * @example
+ * mergeHeaders({ "Content-Type": "text/plain" }, c.set.headers);
+ */
+export function mergeHeaders(
+  ...sources: (HeaderValues | undefined)[]
+): Headers {
+  const headers = new Headers();
+  for (const source of sources) {
+    if (!source) continue;
+    for (const name in source) {
+      const value = source[name]!;
+      if (typeof value === "string") {
+        headers.set(name, value);
+      } else {
+        headers.delete(name);
+        for (const item of value) headers.append(name, item);
+      }
+    }
+  }
+  return headers;
+}
+
+/**
+ * Add a value to a header record, keeping existing values
+ * @example
+ * appendHeader(c.set.headers, "Set-Cookie", "a=1");
+ */
+export function appendHeader(
+  headers: HeaderValues,
+  name: string,
+  value: string
+): void {
+  const key =
+    Object.keys(headers).find(
+      (existing) => existing.toLowerCase() === name.toLowerCase()
+    ) ?? name;
+  const current = headers[key];
+  headers[key] =
+    current === undefined
+      ? [value]
+      : [...(typeof current === "string" ? [current] : current), value];
+}
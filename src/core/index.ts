@@ -10,4 +10,10 @@ export type {
   HttpMethod,
   KyrinConfig,
   LookupResult,
+  ContextInput,
+  ErrorHandler,
+  StopOptions,
+  KyrinServer,
 } from "./types";
+export { mergeHeaders } from "./headers";
+export type { HeaderValues } from "./headers";
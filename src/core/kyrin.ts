@@ -4,19 +4,81 @@
  */
 
 import type {
+  AddRoute,
+  ErrorHandler,
   Handler,
-  HandlerResponse,
+  HandlerResult,
   HttpMethod,
   KyrinConfig,
+  KyrinServer,
+  LookupResult,
+  Pipeline,
+  PrefixRoutes,
+  Serializer,
+  StopOptions,
 } from "./types";
 import type {
   MiddlewareHandler,
   HookHandler,
   KyrinPlugin,
+  ResponseHook,
+  StartHook,
+  StopHook,
 } from "../middleware/types";
-import { Router } from "../router/router";
+import type { RouteSchema } from "../validator/types";
+import {
+  Router,
+  HTTP_METHODS,
+  parseRouteArgs,
+  type RouteArgs,
+  type RouteHandlers,
+  type RouteDefinition,
+  type RouteInput,
+} from "../router/router";
+import type { OpenAPIDocument, OpenAPIOptions } from "../openapi/types";
+import { generateOpenAPI } from "../openapi/generate";
 import { Context } from "../context/context";
-import { compose } from "../middleware/compose";
+import { bodyLimits, checkContentLength } from "../context/body";
+import { toResponse } from "./response";
+import { chain, hooksToMiddleware } from "../middleware/compose";
+import {
+  HttpError,
+  MethodNotAllowedError,
+  NotFoundError,
+} from "../errors/http-error";
+import { problemResponse } from "../errors/problem";
+import type { WebSocketHandlers } from "../websocket/types";
+import { upgradeHandler, websocketHandler } from "../websocket/websocket";
+
+type AnyKyrin = Kyrin<any, any, any, any>;
+
+/** Context members that `decorate()` / `derive()` must not overwrite */
+const CONTEXT_KEYS = new Set([
+  ...Object.getOwnPropertyNames(Context.prototype),
+  ...Object.keys(new Context(new Request("http://localhost"))),
+]);
+
+function assertNoContextKeys(method: string, values: object): void {
+  for (const key of Object.keys(values)) {
+    if (CONTEXT_KEYS.has(key)) {
+      throw new Error(`Cannot ${method} "${key}": it is a Context member`);
+    }
+  }
+}
+
+/** 405 for a path that exists under other methods (`c.allowedMethods`) */
+const methodNotAllowed: Handler = (c) => {
+  throw new MethodNotAllowedError(`${c.method} is not allowed on ${c.path}`, {
+    headers: { Allow: c.allowedMethods.join(", ") },
+  });
+};
+
+/** Response to a HEAD request: same status and headers, no body */
+async function withoutBody(response: Response): Promise<Response> {
+  if (!response.body) return response;
+  await response.body.cancel();
+  return new Response(null, response);
+}
 
 /**
  * Kyrin Application
@@ -29,13 +91,42 @@ import { compose } from "../middleware/compose";
  * app.get("/", () => ({ message: "Hello!" }));
  * app.listen(3000);
  * ```
+ *
+ * Type params:
+ * - `State`: shape of `c.store`
+ * - `Decorators`: context properties from `decorate()` / `derive()`
+ * - `Routes`: route table read by `createClient`
+ * - `BasePath`: group prefix, used to type params declared by it
  */
-export class Kyrin {
+export class Kyrin<
+  State extends object = {},
+  Decorators extends object = {},
+  Routes extends object = {},
+  BasePath extends string = "",
+> {
+  /** Route table type (type-only, never set at runtime) */
+  declare readonly "~routes": Routes;
+
   private router: Router;
   private config: KyrinConfig;
   private middlewares: MiddlewareHandler[] = [];
   private requestHooks: HookHandler[] = [];
-  private responseHooks: HookHandler[] = [];
+  private responseHooks: ResponseHook[] = [];
+  private errorHandler?: ErrorHandler;
+  private notFoundHandler?: Handler;
+  private fallbacks: Handler[] = [];
+  private startHooks: StartHook[] = [];
+  private stopHooks: StopHook[] = [];
+  private _server?: KyrinServer;
+  private decorations: Record<string, unknown> = {};
+  private serializers: Serializer[] = [];
+  private parent?: AnyKyrin;
+  /** Set on apps created by `group()` (their routes live in the parent) */
+  private isGroup = false;
+  private mounts: { prefix: string; app: AnyKyrin; handler: Handler }[] = [];
+  private compiled = false;
+  private notFoundPipeline?: Pipeline;
+  private methodNotAllowedPipeline?: Pipeline;
 
   constructor(config: KyrinConfig = {}) {
     this.router = new Router();
@@ -43,6 +134,8 @@ export class Kyrin {
       port: config.port ?? 3000,
       hostname: config.hostname ?? "localhost",
       development: config.development ?? false,
+      secret: config.secret,
+      bodyLimit: config.bodyLimit,
     };
   }
 
@@ -53,14 +146,25 @@ export class Kyrin {
    * @example
    * app.use(cors());
    * app.use(async (c, next) => { await next(); });
+   *
+   * // Plugins adding context values type them in chained handlers
+   * new Kyrin().use(session()).get("/", (c) => c.session.id);
    */
-  use(middleware: MiddlewareHandler | KyrinPlugin): this {
+  use<D extends object>(
+    plugin: KyrinPlugin<D>
+  ): Kyrin<State, Decorators & D, Routes, BasePath>;
+  use(middleware: MiddlewareHandler | KyrinPlugin): this;
+  use(middleware: MiddlewareHandler | KyrinPlugin): AnyKyrin {
+    this.compiled = false;
     if (typeof middleware === "function") {
       this.middlewares.push(middleware);
     } else {
       if (middleware.middleware) this.middlewares.push(middleware.middleware);
       if (middleware.onRequest) this.requestHooks.push(middleware.onRequest);
       if (middleware.onResponse) this.responseHooks.push(middleware.onResponse);
+      if (middleware.onStart) this.startHooks.push(middleware.onStart);
+      if (middleware.onStop) this.stopHooks.push(middleware.onStop);
+      middleware.setup?.(this);
     }
     return this;
   }
@@ -72,90 +176,568 @@ export class Kyrin {
    */
   onRequest(handler: HookHandler): this {
     this.requestHooks.push(handler);
+    this.compiled = false;
     return this;
   }
 
   /**
-   * Add hook to run after response
+   * Add hook to run after the response is built
+   * Also runs after short-circuits and errors; return a Response to replace it
    * @example
-   * app.onResponse((c) => { console.log(`${Date.now() - c.store.start}ms`); });
+   * app.onResponse((c, res) => { console.log(`${res.status} ${c.path}`); });
    */
-  onResponse(handler: HookHandler): this {
+  onResponse(handler: ResponseHook): this {
     this.responseHooks.push(handler);
+    this.compiled = false;
+    return this;
+  }
+
+  /**
+   * Add hook to run after the server starts listening
+   * @example
+   * app.onStart((server) => console.log(`listening on ${server.port}`));
+   */
+  onStart(handler: StartHook): this {
+    this.startHooks.push(handler);
+    return this;
+  }
+
+  /**
+   * Add hook to run after the server stops
+   * @example
+   * app.onStop(() => db.close());
+   */
+  onStop(handler: StopHook): this {
+    this.stopHooks.push(handler);
     return this;
   }
 
   /**
-   * Group routes with a middleware
+   * Handle errors thrown by handlers, middleware or hooks
+   * Return nothing to fall back to the default Problem Details response
+   * (on a group: to the enclosing app's onError)
+   * @example
+   * app.onError((err, c) => {
+   *   if (err instanceof NotFoundError) return c.json({ message: err.message }, 404);
+   * });
+   */
+  onError(handler: ErrorHandler): this {
+    this.errorHandler = handler;
+    return this;
+  }
+
+  /**
+   * Handle requests that match no route
+   * Runs through hooks and middleware like a normal route;
+   * `c.params.wildcard` is the unmatched path
+   * @example
+   * app.notFound((c) => c.json({ message: `No route for ${c.path}` }, 404));
+   */
+  notFound(handler: Handler<{}, HandlerResult, State, Decorators>): this {
+    if (this.isGroup) {
+      throw new Error(
+        "notFound() is not supported on groups: use app.notFound(), " +
+          "or mount a sub-app for a scoped one"
+      );
+    }
+    this.notFoundHandler = handler as Handler;
+    this.compiled = false;
+    return this;
+  }
+
+  /**
+   * Try a handler before notFound, once no route matched the path
+   * Return nothing to pass the request on (next fallback, then notFound)
+   * @example
+   * app.fallback((c) => {
+   *   if (c.path.startsWith("/old/")) return c.redirect(c.path.slice(4));
+   * });
+   */
+  fallback(handler: Handler<{}, HandlerResult, State, Decorators>): this {
+    this.fallbacks.push(handler as Handler);
+    this.compiled = false;
+    return this;
+  }
+
+  /**
+   * Group routes with a middleware (same as `group("", [middleware], fn)`)
    * @example
    * app.guard(auth, (app) => {
    *   app.get("/admin", handler);
    * });
    */
-  guard(middleware: MiddlewareHandler, fn: (app: Kyrin) => void): this {
-    const guardedApp = new Kyrin();
-    fn(guardedApp);
-
-    for (const route of guardedApp.router.getRoutes()) {
-      const wrappedHandler: Handler = async (c) => {
-        let result: HandlerResponse;
-        await middleware(c, async () => {
-          result = await route.handler(c);
-        });
-        return result!;
-      };
-      this.on(route.method, route.path, wrappedHandler);
-    }
+  guard(
+    middleware: MiddlewareHandler,
+    fn: (app: Kyrin<State, Decorators, {}, BasePath>) => void
+  ): this {
+    return this.addGroup("", [middleware], fn);
+  }
+
+  // ==================== Context Extension ====================
+
+  /**
+   * Add a value to every request context (e.g., a database)
+   * Chain it so handlers registered after see the property
+   * @example
+   * const app = new Kyrin()
+   *   .decorate("db", db)
+   *   .get("/users", (c) => c.db.table("users").all());
+   */
+  decorate<K extends string, V>(
+    key: K,
+    value: V
+  ): Kyrin<State, Decorators & { [P in K]: V }, Routes, BasePath>;
+  decorate<D extends object>(
+    values: D
+  ): Kyrin<State, Decorators & D, Routes, BasePath>;
+  decorate(keyOrValues: string | object, value?: unknown): AnyKyrin {
+    const values =
+      typeof keyOrValues === "string"
+        ? { [keyOrValues]: value }
+        : keyOrValues;
+    assertNoContextKeys("decorate", values);
+    Object.assign(this.decorations, values);
+    this.compiled = false;
+    return this;
+  }
+
+  /**
+   * Add per-request values to the context
+   * Runs in order with `onRequest` hooks, before middleware and handlers;
+   * returning a Context member (e.g. `json`) is an error, like in `decorate()`
+   * @example
+   * const app = new Kyrin()
+   *   .derive(async (c) => ({ user: await auth(c.header("Authorization")) }))
+   *   .get("/me", (c) => c.user);
+   */
+  derive<D extends object>(
+    fn: (c: Context<{}, State> & Decorators) => D | Promise<D>
+  ): Kyrin<State, Decorators & D, Routes, BasePath> {
+    this.onRequest(async (c) => {
+      const values = await fn(c as Context<{}, State> & Decorators);
+      assertNoContextKeys("derive", values);
+      c.extend(values);
+    });
+    return this as AnyKyrin;
+  }
+
+  // ==================== Response Conversion ====================
+
+  /**
+   * Convert custom handler return values
+   * The first matching serializer wins; what it returns is converted as usual
+   * @example
+   * app.serializer(
+   *   (value) => value instanceof Decimal,
+   *   (value: Decimal) => value.toString()
+   * );
+   */
+  serializer<T>(
+    test: (value: unknown) => value is T,
+    serialize: Serializer<T>["serialize"]
+  ): this;
+  serializer(
+    test: (value: unknown) => boolean,
+    serialize: Serializer["serialize"]
+  ): this;
+  serializer(
+    test: (value: unknown) => boolean,
+    serialize: Serializer["serialize"]
+  ): this {
+    this.serializers.push({ test, serialize });
     return this;
   }
 
   // ==================== Route Methods ====================
+  // Each route is added to the `Routes` type, so chain route calls
+  // (`new Kyrin().get(...).post(...)`) to use the app with `createClient`
 
-  get(path: string, handler: Handler): this {
-    this.router.get(path, handler);
+  get<P extends string, R extends HandlerResult>(
+    path: P,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, "GET", `${BasePath}${P}`, {}, R>,
+    BasePath
+  >;
+  get<P extends string, S extends RouteSchema, R extends HandlerResult>(
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`, S>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, "GET", `${BasePath}${P}`, S, R>,
+    BasePath
+  >;
+  get(
+    path: string,
+    ...args: RouteArgs
+  ): Kyrin<State, Decorators, any, BasePath> {
+    this.router.add({ method: "GET", path, ...parseRouteArgs(args) });
     return this;
   }
 
-  post(path: string, handler: Handler): this {
-    this.router.post(path, handler);
+  post<P extends string, R extends HandlerResult>(
+    path: P,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, "POST", `${BasePath}${P}`, {}, R>,
+    BasePath
+  >;
+  post<P extends string, S extends RouteSchema, R extends HandlerResult>(
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`, S>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, "POST", `${BasePath}${P}`, S, R>,
+    BasePath
+  >;
+  post(
+    path: string,
+    ...args: RouteArgs
+  ): Kyrin<State, Decorators, any, BasePath> {
+    this.router.add({ method: "POST", path, ...parseRouteArgs(args) });
     return this;
   }
 
-  put(path: string, handler: Handler): this {
-    this.router.put(path, handler);
+  put<P extends string, R extends HandlerResult>(
+    path: P,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, "PUT", `${BasePath}${P}`, {}, R>,
+    BasePath
+  >;
+  put<P extends string, S extends RouteSchema, R extends HandlerResult>(
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`, S>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, "PUT", `${BasePath}${P}`, S, R>,
+    BasePath
+  >;
+  put(
+    path: string,
+    ...args: RouteArgs
+  ): Kyrin<State, Decorators, any, BasePath> {
+    this.router.add({ method: "PUT", path, ...parseRouteArgs(args) });
     return this;
   }
 
-  delete(path: string, handler: Handler): this {
-    this.router.delete(path, handler);
+  delete<P extends string, R extends HandlerResult>(
+    path: P,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, "DELETE", `${BasePath}${P}`, {}, R>,
+    BasePath
+  >;
+  delete<P extends string, S extends RouteSchema, R extends HandlerResult>(
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`, S>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, "DELETE", `${BasePath}${P}`, S, R>,
+    BasePath
+  >;
+  delete(
+    path: string,
+    ...args: RouteArgs
+  ): Kyrin<State, Decorators, any, BasePath> {
+    this.router.add({ method: "DELETE", path, ...parseRouteArgs(args) });
     return this;
   }
 
-  patch(path: string, handler: Handler): this {
-    this.router.patch(path, handler);
+  patch<P extends string, R extends HandlerResult>(
+    path: P,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, "PATCH", `${BasePath}${P}`, {}, R>,
+    BasePath
+  >;
+  patch<P extends string, S extends RouteSchema, R extends HandlerResult>(
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`, S>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, "PATCH", `${BasePath}${P}`, S, R>,
+    BasePath
+  >;
+  patch(
+    path: string,
+    ...args: RouteArgs
+  ): Kyrin<State, Decorators, any, BasePath> {
+    this.router.add({ method: "PATCH", path, ...parseRouteArgs(args) });
     return this;
   }
 
-  options(path: string, handler: Handler): this {
-    this.router.options(path, handler);
+  options<P extends string, R extends HandlerResult>(
+    path: P,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, "OPTIONS", `${BasePath}${P}`, {}, R>,
+    BasePath
+  >;
+  options<P extends string, S extends RouteSchema, R extends HandlerResult>(
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`, S>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, "OPTIONS", `${BasePath}${P}`, S, R>,
+    BasePath
+  >;
+  options(
+    path: string,
+    ...args: RouteArgs
+  ): Kyrin<State, Decorators, any, BasePath> {
+    this.router.add({ method: "OPTIONS", path, ...parseRouteArgs(args) });
     return this;
   }
 
-  head(path: string, handler: Handler): this {
-    this.router.head(path, handler);
+  head<P extends string, R extends HandlerResult>(
+    path: P,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, "HEAD", `${BasePath}${P}`, {}, R>,
+    BasePath
+  >;
+  head<P extends string, S extends RouteSchema, R extends HandlerResult>(
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`, S>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, "HEAD", `${BasePath}${P}`, S, R>,
+    BasePath
+  >;
+  head(
+    path: string,
+    ...args: RouteArgs
+  ): Kyrin<State, Decorators, any, BasePath> {
+    this.router.add({ method: "HEAD", path, ...parseRouteArgs(args) });
     return this;
   }
 
-  all(path: string, handler: Handler): this {
-    this.router.all(path, handler);
+  all<P extends string, R extends HandlerResult>(
+    path: P,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, HttpMethod, `${BasePath}${P}`, {}, R>,
+    BasePath
+  >;
+  all<P extends string, S extends RouteSchema, R extends HandlerResult>(
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`, S>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, HttpMethod, `${BasePath}${P}`, S, R>,
+    BasePath
+  >;
+  all(
+    path: string,
+    ...args: RouteArgs
+  ): Kyrin<State, Decorators, any, BasePath> {
+    const route = parseRouteArgs(args);
+    for (const method of HTTP_METHODS) {
+      this.router.add({ method, path, ...route });
+    }
     return this;
   }
 
-  on(method: HttpMethod, path: string, handler: Handler): this {
-    this.router.on(method, path, handler);
+  on<
+    M extends HttpMethod,
+    P extends string,
+    R extends HandlerResult,
+  >(
+    method: M,
+    path: P,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, M, `${BasePath}${P}`, {}, R>,
+    BasePath
+  >;
+  on<
+    M extends HttpMethod,
+    P extends string,
+    S extends RouteSchema,
+    R extends HandlerResult,
+  >(
+    method: M,
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<
+      RouteInput<`${BasePath}${P}`, S>,
+      R,
+      State,
+      Decorators
+    >
+  ): Kyrin<
+    State,
+    Decorators,
+    AddRoute<Routes, M, `${BasePath}${P}`, S, R>,
+    BasePath
+  >;
+  on(
+    method: HttpMethod,
+    path: string,
+    ...args: RouteArgs
+  ): Kyrin<State, Decorators, any, BasePath> {
+    this.router.add({ method, path, ...parseRouteArgs(args) });
     return this;
   }
 
+  // ==================== WebSocket ====================
+
+  /**
+   * Register a WebSocket route
+   * The upgrade request runs through hooks and middleware (e.g., auth)
+   * @example
+   * app.ws("/chat/:room", {
+   *   open: (ws) => ws.subscribe(ws.data.params.room!),
+   *   message: (ws, msg) => ws.publish(ws.data.params.room!, msg),
+   * });
+   */
+  ws<D = undefined>(path: string, handlers: WebSocketHandlers<D>): this {
+    this.router.add({ method: "GET", path, handler: upgradeHandler(handlers) });
+    return this;
+  }
+
+  /**
+   * Publish a message to all sockets subscribed to a topic
+   * @returns Bytes sent (0 if the server is not running)
+   * @example
+   * app.post("/news", async (c) => {
+   *   app.publish("news", await c.text());
+   *   return null;
+   * });
+   */
+  publish(
+    topic: string,
+    data: Parameters<KyrinServer["publish"]>[1],
+    compress?: boolean
+  ): number {
+    return this.server?.publish(topic, data, compress) ?? 0;
+  }
+
+  /** Number of sockets subscribed to a topic */
+  subscriberCount(topic: string): number {
+    return this.server?.subscriberCount(topic) ?? 0;
+  }
+
   // ==================== Route Groups ====================
 
   /**
@@ -163,38 +745,199 @@ export class Kyrin {
    * @example
    * app.route("/users", userRouter);
    */
-  route(prefix: string, router: Router): this {
+  route(prefix: string, router: Router<any>): this {
     const routes = router.getRoutes();
     for (const route of routes) {
-      this.on(route.method, `${prefix}${route.path}`, route.handler);
+      this.router.add({ ...route, path: `${prefix}${route.path}` });
     }
     return this;
   }
 
-  // ==================== Response Helpers ====================
+  /**
+   * Group routes under a prefix with shared middleware
+   * `use()` and hooks registered on the group only apply to its routes
+   * @example
+   * app.group("/admin", [auth, audit], (g) => {
+   *   g.get("/stats", stats);
+   *   g.delete("/users/:id", rateLimit, deleteUser);
+   * });
+   */
+  group<Prefix extends string>(
+    prefix: Prefix,
+    fn: (app: Kyrin<State, Decorators, {}, `${BasePath}${Prefix}`>) => void
+  ): this;
+  group<Prefix extends string>(
+    prefix: Prefix,
+    middleware: MiddlewareHandler[],
+    fn: (app: Kyrin<State, Decorators, {}, `${BasePath}${Prefix}`>) => void
+  ): this;
+  group(
+    prefix: string,
+    ...args:
+      | [(app: AnyKyrin) => void]
+      | [MiddlewareHandler[], (app: AnyKyrin) => void]
+  ): this {
+    const [middleware, fn] = args.length === 1 ? [[], args[0]] : args;
+    return this.addGroup(prefix, middleware, fn);
+  }
+
+  private addGroup(
+    prefix: string,
+    middleware: MiddlewareHandler[],
+    fn: (app: AnyKyrin) => void
+  ): this {
+    const groupApp: AnyKyrin = new Kyrin(this.config);
+    groupApp.parent = this;
+    groupApp.isGroup = true;
+    fn(groupApp);
 
-  private toResponse(result: HandlerResponse, ctx: Context): Response {
-    if (result instanceof Response) {
-      return result;
+    // Group-level decorate(), serializer(), use(), hooks and onError
+    // become route middleware
+    const scoped = [...middleware];
+    const { decorations, serializers } = groupApp;
+    if (Object.keys(decorations).length) {
+      scoped.push((c, next) => {
+        c.extend(decorations);
+        return next();
+      });
     }
-    if (typeof result === "string") {
-      return new Response(result, {
-        status: ctx.set.status,
-        headers: { "Content-Type": "text/plain", ...ctx.set.headers },
+    if (serializers.length) {
+      scoped.push((c, next) => {
+        c.serializers = [...serializers, ...c.serializers];
+        return next();
       });
     }
-    if (result === null || result === undefined) {
-      return new Response(null, { status: 204 });
+    if (
+      groupApp.requestHooks.length ||
+      groupApp.responseHooks.length ||
+      groupApp.errorHandler
+    ) {
+      scoped.push(
+        hooksToMiddleware(
+          groupApp.requestHooks,
+          groupApp.responseHooks,
+          (error, c) => groupApp.handleError(error, c)
+        )
+      );
     }
-    return new Response(JSON.stringify(result), {
-      status: ctx.set.status,
-      headers: { "Content-Type": "application/json", ...ctx.set.headers },
-    });
+    scoped.push(...groupApp.middlewares);
+
+    for (const route of groupApp.router.getRoutes()) {
+      this.router.add({
+        ...route,
+        path: `${prefix}${route.path}`,
+        middleware: [...scoped, ...(route.middleware ?? [])],
+      });
+    }
+    this.fallbacks.push(...groupApp.fallbacks);
+    for (const mount of groupApp.mounts) {
+      this.mounts.push({ ...mount, prefix: `${prefix}${mount.prefix}` });
+    }
+    this.startHooks.push(...groupApp.startHooks);
+    this.stopHooks.push(...groupApp.stopHooks);
+    return this;
+  }
+
+  /**
+   * Mount a sub-application under a prefix
+   * The sub-app keeps its own middleware, hooks, notFound and onError,
+   * scoped to the prefix; parent middleware runs around it
+   * @example
+   * const v1 = new Kyrin();
+   * v1.use(auth);
+   * v1.get("/users", listUsers);
+   * app.mount("/api/v1", v1); // GET /api/v1/users
+   */
+  mount<Prefix extends string, Sub extends object>(
+    prefix: Prefix,
+    app: Kyrin<any, any, Sub, any>
+  ): Kyrin<State, Decorators, Routes & PrefixRoutes<Prefix, Sub>, BasePath>;
+  mount(
+    prefix: string,
+    app: AnyKyrin
+  ): Kyrin<State, Decorators, any, BasePath> {
+    if (app === this || app.parent) {
+      throw new Error("App is already mounted");
+    }
+    const base = prefix.endsWith("/") ? prefix.slice(0, -1) : prefix;
+    app.parent = this;
+
+    // The wildcard is the path below the prefix, wherever this app
+    // itself is mounted or grouped
+    const handler: Handler = (c) =>
+      app.dispatch(
+        c.req,
+        c.method as HttpMethod,
+        `/${c.params.wildcard ?? ""}`,
+        c.server,
+        c
+      );
+    for (const method of HTTP_METHODS) {
+      this.router.add({
+        method,
+        path: `${base}/*`,
+        handler,
+        schema: { detail: { hide: true } },
+      });
+    }
+    this.mounts.push({ prefix: base, app, handler });
+
+    // Lifecycle hooks of the sub-app follow the parent server
+    this.onStart((server) =>
+      app.runLifecycle("onStart", app.startHooks, server)
+    );
+    this.onStop(() => app.runLifecycle("onStop", app.stopHooks));
+    return this;
+  }
+
+  // ==================== OpenAPI ====================
+
+  /**
+   * Generate an OpenAPI 3.1 document from registered routes
+   * Includes routes of mounted apps
+   * @example
+   * app.get("/openapi.json", () => app.openapi({ info: { title: "My API" } }));
+   */
+  openapi(options?: OpenAPIOptions): OpenAPIDocument {
+    return generateOpenAPI(this.collectRoutes(), options);
+  }
+
+  /** All routes, with mounted app routes under their prefix */
+  private collectRoutes(prefix = ""): RouteDefinition[] {
+    const routes = this.router
+      .getRoutes()
+      .map((route) => ({ ...route, path: `${prefix}${route.path}` }));
+    for (const mount of this.mounts) {
+      routes.push(...mount.app.collectRoutes(`${prefix}${mount.prefix}`));
+    }
+    return routes;
   }
 
   // ==================== Request Handler ====================
 
-  private async handleRequest(req: Request): Promise<Response> {
+  /**
+   * Handle a request through the full pipeline (no server needed)
+   * Compatible with `Bun.serve({ fetch: app.fetch })`
+   * @example
+   * const res = await app.fetch(new Request("http://localhost/users/1"));
+   */
+  fetch = (req: Request, server?: KyrinServer): Promise<Response> =>
+    this.handleRequest(req, server);
+
+  /**
+   * Send an in-process request (path is resolved against http://localhost)
+   * @example
+   * const res = await app.request("/users", { method: "POST", body: "{}" });
+   */
+  request(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+    const req =
+      input instanceof Request
+        ? new Request(input, init)
+        : new Request(new URL(input, "http://localhost").href, init);
+    return this.handleRequest(req);
+  }
+
+  private handleRequest(req: Request, server?: KyrinServer): Promise<Response> {
     const method = req.method as HttpMethod;
     const url = req.url;
 
@@ -206,81 +949,315 @@ export class Kyrin {
         ? url.slice(pathStart)
         : url.slice(pathStart, queryIndex);
 
-    const result = this.router.match(method, path);
+    const response = this.dispatch(req, method, path, server);
+    return method === "HEAD" ? response.then(withoutBody) : response;
+  }
 
-    if (!result) {
-      return new Response("Not Found", { status: 404 });
-    }
+  /**
+   * Run the pipeline for a path relative to this app
+   * Mounted apps receive the path without their prefix and share
+   * `store` / `set` with the parent context
+   */
+  private dispatch(
+    req: Request,
+    method: HttpMethod,
+    path: string,
+    server?: KyrinServer,
+    parent?: Context
+  ): Promise<Response> {
+    if (!this.compiled) this.compile();
 
-    const ctx = new Context(req, result.params);
+    // HEAD runs the GET route when it has none of its own (RFC 9110 §9.3.2)
+    const result: LookupResult & { allowed?: HttpMethod[] } =
+      this.router.match(method, path) ??
+      (method === "HEAD" ? this.router.match("GET", path) : null) ??
+      this.fallbackRoute(path);
 
-    try {
-      // Run request hooks
-      for (const hook of this.requestHooks) {
-        const hookResult = await hook(ctx);
-        if (hookResult instanceof Response) return hookResult;
+    const ctx = new Context(req, result.params, server);
+    if (result.allowed) ctx.allowedMethods = result.allowed;
+    ctx.serializers = this.serializers;
+    ctx.config = this.config;
+    ctx.bodyLimit = this.config.bodyLimit ?? parent?.bodyLimit;
+    if (parent) {
+      ctx.store = parent.store;
+      ctx.set = parent.set;
+      ctx.shareBody(parent);
+      ctx.extend(parent.extensions);
+      ctx.serializers = [...this.serializers, ...parent.serializers];
+      if (this.config.secret === undefined) {
+        ctx.config = { ...this.config, secret: parent.config.secret };
       }
+    }
 
-      let response: Response;
-
-      // No middleware - fast path
-      if (this.middlewares.length === 0) {
-        const handlerResult = await result.handler(ctx);
-        response = this.toResponse(handlerResult, ctx);
-      } else {
-        // With middleware - onion execution
-        const composed = compose(this.middlewares);
-        const middlewareResponse = await composed(ctx, async () => {
-          const handlerResult = await result.handler(ctx);
-          return this.toResponse(handlerResult, ctx);
-        });
-        response =
-          middlewareResponse ??
-          new Response("Internal Server Error", { status: 500 });
-      }
+    return result.pipeline!(ctx);
+  }
+
+  // ==================== Pipeline Compilation ====================
+
+  /**
+   * Compile every route into a pipeline (runs once, before the first request)
+   * Changing global middleware, hooks, notFound or fallbacks marks the app
+   * for recompile
+   */
+  private compile(): void {
+    this.router.compile((handler, route) => this.buildPipeline(handler, route));
+    const notFound: Handler =
+      this.notFoundHandler ??
+      ((c) => {
+        throw new NotFoundError(`No route for ${c.method} ${c.path}`);
+      });
+    const fallbacks = [...this.fallbacks];
+    this.notFoundPipeline = this.buildPipeline(
+      fallbacks.length === 0
+        ? notFound
+        : async (c) => {
+            for (const fallback of fallbacks) {
+              const result = await fallback(c);
+              if (result !== undefined) return result;
+            }
+            return notFound(c);
+          }
+    );
+    this.methodNotAllowedPipeline = this.buildPipeline(methodNotAllowed);
+    this.compiled = true;
+  }
+
+  /**
+   * Bake hooks, global middleware, handler and response conversion
+   * into a single function (middleware is composed once, not per request)
+   */
+  private buildPipeline(handler: Handler, route?: RouteDefinition): Pipeline {
+    const decorations = { ...this.decorations };
+    const decorated = Object.keys(decorations).length > 0;
+    const requestHooks = [...this.requestHooks];
+    const responseHooks = [...this.responseHooks];
+    const run = chain(this.middlewares, async (ctx) => {
+      let result = handler(ctx);
+      if (result instanceof Promise) result = await result;
+      return toResponse(result, ctx);
+    });
 
-      // Run response hooks
-      for (const hook of this.responseHooks) {
-        await hook(ctx);
+    // A declared Content-Length over the route's limit (its last
+    // `bodyLimit()`, else the config) is a 413 before any hook runs;
+    // mounted apps check against their own
+    const checkBody = !this.mounts.some((m) => m.handler === route?.handler);
+    const routeLimit = [...this.middlewares, ...(route?.middleware ?? [])]
+      .map((middleware) => bodyLimits.get(middleware))
+      .findLast((limit) => limit !== undefined);
+
+    return async (ctx) => {
+      let response: Response | undefined;
+      try {
+        if (checkBody) checkContentLength(ctx.req, routeLimit ?? ctx.bodyLimit);
+        if (decorated) ctx.extend(decorations);
+        for (const hook of requestHooks) {
+          // Only sync hooks skip the await (an extra tick per hook adds up)
+          let hookResult = hook(ctx);
+          if (hookResult instanceof Promise) hookResult = await hookResult;
+          if (hookResult instanceof Response) {
+            response = hookResult;
+            break;
+          }
+        }
+
+        response ??=
+          (await run(ctx)) ??
+          problemResponse({ status: 500, instance: ctx.path });
+      } catch (error) {
+        response = await this.handleError(error, ctx);
       }
 
+      // Response hooks see every response, including short-circuits and errors
+      try {
+        for (const hook of responseHooks) {
+          let hookResult = hook(ctx, response);
+          if (hookResult instanceof Promise) hookResult = await hookResult;
+          if (hookResult instanceof Response) response = hookResult;
+        }
+      } catch (error) {
+        response = await this.handleError(error, ctx);
+      }
       return response;
-    } catch (error) {
-      console.error("Handler Error:", error);
-
-      if (this.config.development) {
-        // แสดง error details ใน development
-        return new Response(`Error: ${error}\n\n${(error as any).stack}`, {
-          status: 500,
-          headers: { "Content-Type": "text/plain" },
-        });
+    };
+  }
+
+  /**
+   * Route used when nothing matches
+   * 405 with `Allow` if the path exists under another method, else notFound
+   */
+  private fallbackRoute(
+    path: string
+  ): LookupResult & { allowed?: HttpMethod[] } {
+    const allowed = this.router.allowedMethods(path);
+    if (allowed.length > 0) {
+      return {
+        params: {},
+        handler: methodNotAllowed,
+        pipeline: this.methodNotAllowedPipeline,
+        allowed,
+      };
+    }
+
+    return {
+      params: { wildcard: path.slice(1) },
+      handler: this.notFoundHandler!,
+      pipeline: this.notFoundPipeline,
+    };
+  }
+
+  /** Run the user error handler, falling back to Problem Details */
+  private async handleError(error: unknown, ctx: Context): Promise<Response> {
+    if (this.errorHandler) {
+      try {
+        const result = await this.errorHandler(error, ctx);
+        if (result !== undefined) return await toResponse(result, ctx);
+      } catch (handlerError) {
+        error = handlerError;
       }
+    }
+    // Groups hand unhandled errors to the app they belong to
+    if (this.isGroup) return this.parent!.handleError(error, ctx);
+    return this.defaultErrorResponse(error, ctx);
+  }
 
-      // ซ่อน details ใน production
-      return new Response("Internal Server Error", { status: 500 });
+  /**
+   * Default error response (RFC 9457 application/problem+json)
+   * Stack traces are only included in development mode
+   */
+  private defaultErrorResponse(error: unknown, ctx: Context): Response {
+    const development = this.config.development;
+
+    if (error instanceof HttpError) {
+      return problemResponse(
+        {
+          type: error.type,
+          title: error.title,
+          status: error.status,
+          detail: error.message !== error.title ? error.message : undefined,
+          instance: ctx.path,
+          ...error.payload,
+          ...(development && error.status >= 500 && { stack: error.stack }),
+        },
+        { ...ctx.set.headers, ...error.headers }
+      );
     }
+
+    console.error("Handler Error:", error);
+
+    return problemResponse(
+      {
+        status: 500,
+        instance: ctx.path,
+        ...(development && {
+          detail: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        }),
+      },
+      ctx.set.headers
+    );
   }
 
   // ==================== Server ====================
 
+  /** Running server (undefined before listen / after stop) */
+  get server(): KyrinServer | undefined {
+    return this._server ?? this.parent?.server;
+  }
+
   /**
    * Start the HTTP server
+   * Pass port 0 to pick a free port (read it from `server.port`)
+   * @example
+   * const server = app.listen(0);
+   * console.log(server.port);
    */
-  listen(port?: number): void {
-    const finalPort = port ?? this.config.port!;
-    const hostname = this.config.hostname!;
+  listen(port?: number): KyrinServer {
+    if (this._server) throw new Error("Server is already running");
+    if (!this.compiled) this.compile();
 
-    Bun.serve({
-      port: finalPort,
-      hostname,
+    const server = Bun.serve({
+      port: port ?? this.config.port!,
+      hostname: this.config.hostname!,
       development: this.config.development,
-      fetch: (req) => this.handleRequest(req),
+      // Bun refuses bodies over the limit before they reach the app
+      maxRequestBodySize:
+        this.config.bodyLimit === undefined ? undefined : this.maxBodySize(),
+      fetch: this.fetch,
+      websocket: websocketHandler,
       error: (err) => {
         console.error("Server Error:", err);
-        return new Response("Internal Server Error", { status: 500 });
+        return problemResponse({ status: 500 });
       },
     });
+    this._server = server;
+
+    console.log(`🐲 Kyrin running at ${server.url}`);
+
+    void this.runLifecycle("onStart", this.startHooks, server);
+    return server;
+  }
+
+  /**
+   * Largest body any route accepts: the config, `bodyLimit()` middleware
+   * raising it, and mounted apps
+   */
+  private maxBodySize(): number | undefined {
+    const middleware = [
+      ...this.middlewares,
+      ...this.router.getRoutes().flatMap((route) => route.middleware ?? []),
+    ];
+    const limits = [
+      this.config.bodyLimit,
+      ...middleware.map((handler) => bodyLimits.get(handler)),
+      ...this.mounts.map(({ app }) => app.maxBodySize()),
+    ].filter((limit) => limit !== undefined);
+    return limits.length > 0 ? Math.max(...limits) : undefined;
+  }
 
-    console.log(`🐲 Kyrin running at http://${hostname}:${finalPort}`);
+  /**
+   * Stop the server, then run onStop hooks
+   * @example
+   * process.on("SIGTERM", async () => {
+   *   await app.stop({ timeout: 10_000 });
+   *   process.exit(0);
+   * });
+   */
+  async stop(options: StopOptions = {}): Promise<void> {
+    const server = this._server;
+    if (!server) return;
+    this._server = undefined;
+
+    const { graceful = true, timeout } = options;
+
+    if (!graceful) {
+      await server.stop(true);
+    } else if (timeout === undefined) {
+      await server.stop(false);
+    } else {
+      // Drain in-flight requests, force-close after timeout
+      let timer: Timer | undefined;
+      const forceClose = new Promise<void>((resolve) => {
+        timer = setTimeout(() => resolve(server.stop(true)), timeout);
+      });
+      await Promise.race([server.stop(false), forceClose]);
+      clearTimeout(timer);
+    }
+
+    await this.runLifecycle("onStop", this.stopHooks);
+  }
+
+  /** Run lifecycle hooks in order; errors are logged, not thrown */
+  private async runLifecycle<A extends unknown[]>(
+    name: string,
+    hooks: ((...args: A) => void | Promise<void>)[],
+    ...args: A
+  ): Promise<void> {
+    for (const hook of hooks) {
+      try {
+        await hook(...args);
+      } catch (error) {
+        console.error(`${name} Hook Error:`, error);
+      }
+    }
   }
 }
@@ -0,0 +1,198 @@
+/**
+ * Kyrin Framework - Response Conversion
+ * Turns handler return values into Responses
+ */
+
+import type { BunFile } from "bun";
+import type { Context } from "../context/context";
+import { mergeHeaders, type HeaderValues } from "./headers";
+import { NotFoundError } from "../errors/http-error";
+
+const encoder = new TextEncoder();
+
+/**
+ * Convert a handler result to a Response
+ * - Response → as is
+ * - values matched by an app serializer → serialized, then converted
+ * - string → text/plain
+ * - null / undefined → 204 (or `c.set.status` when changed)
+ * - BunFile / Blob → body with its type and size (missing file → 404)
+ * - Uint8Array / ArrayBuffer → application/octet-stream
+ * - ReadableStream / async iterable → streamed body
+ * - FormData / URLSearchParams → encoded by the Response
+ * - anything else → JSON
+ */
+export function toResponse(
+  result: unknown,
+  ctx: Context
+): Response | Promise<Response> {
+  if (result instanceof Response) {
+    return result;
+  }
+  for (const serializer of ctx.serializers) {
+    if (serializer.test(result)) {
+      return Promise.resolve(serializer.serialize(result, ctx)).then((value) =>
+        convert(value, ctx)
+      );
+    }
+  }
+  return convert(result, ctx);
+}
+
+function convert(result: unknown, ctx: Context): Response | Promise<Response> {
+  if (result instanceof Response) {
+    return result;
+  }
+  if (typeof result === "string") {
+    return send(result, ctx, { "Content-Type": "text/plain" });
+  }
+  if (isPlainJson(result)) {
+    return json(result, ctx);
+  }
+  if (result === null || result === undefined) {
+    return new Response(null, {
+      status: ctx.set.status === 200 ? 204 : ctx.set.status,
+      headers: mergeHeaders(ctx.set.headers),
+    });
+  }
+  if (isBunFile(result)) {
+    return fileResponse(result, ctx);
+  }
+  if (result instanceof Blob) {
+    return send(result, ctx, blobHeaders(result));
+  }
+  if (result instanceof ArrayBuffer || ArrayBuffer.isView(result)) {
+    const bytes =
+      result instanceof ArrayBuffer
+        ? new Uint8Array(result)
+        : new Uint8Array(result.buffer, result.byteOffset, result.byteLength);
+    return send(bytes, ctx, {
+      "Content-Type": "application/octet-stream",
+      "Content-Length": String(result.byteLength),
+    });
+  }
+  if (result instanceof ReadableStream) {
+    return send(result, ctx, { "Content-Type": "application/octet-stream" });
+  }
+  if (result instanceof FormData || result instanceof URLSearchParams) {
+    return send(result, ctx, {});
+  }
+  if (isAsyncIterable(result)) {
+    return send(iterableStream(result), ctx, {
+      "Content-Type": "application/octet-stream",
+    });
+  }
+  return json(result, ctx);
+}
+
+// ==================== Private Helpers ====================
+
+/** Response with `c.set` status and headers over the defaults */
+function send(
+  body: ConstructorParameters<typeof Response>[0],
+  ctx: Context,
+  defaults: Record<string, string>
+): Response {
+  return new Response(body, {
+    status: ctx.set.status,
+    headers: plainHeaders(defaults, ctx.set.headers)
+      ? { ...defaults, ...(ctx.set.headers as Record<string, string>) }
+      : mergeHeaders(defaults, ctx.set.headers),
+  });
+}
+
+/**
+ * Whether a plain spread merges correctly: single values only and no name
+ * overriding a default in another case (skips building a Headers object)
+ */
+function plainHeaders(
+  defaults: Record<string, string>,
+  headers: HeaderValues
+): boolean {
+  for (const name in headers) {
+    if (typeof headers[name] !== "string") return false;
+    if (!(name in defaults) && hasHeader(defaults, name)) return false;
+  }
+  return true;
+}
+
+function hasHeader(headers: Record<string, string>, name: string): boolean {
+  for (const existing in headers) {
+    if (
+      existing.length === name.length &&
+      existing.toLowerCase() === name.toLowerCase()
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function json(result: unknown, ctx: Context): Response {
+  return send(JSON.stringify(result), ctx, {
+    "Content-Type": "application/json",
+  });
+}
+
+/** Object literals and arrays skip the binary / stream checks */
+function isPlainJson(value: unknown): boolean {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === Array.prototype;
+}
+
+function blobHeaders(blob: Blob): Record<string, string> {
+  return {
+    "Content-Type": blob.type || "application/octet-stream",
+    "Content-Length": String(blob.size),
+  };
+}
+
+async function fileResponse(file: BunFile, ctx: Context): Promise<Response> {
+  if (!(await file.exists())) {
+    throw new NotFoundError("File not found");
+  }
+  return send(file, ctx, blobHeaders(file));
+}
+
+function isBunFile(value: unknown): value is BunFile {
+  return (
+    value instanceof Blob &&
+    typeof (value as Partial<BunFile>).exists === "function"
+  );
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Symbol.asyncIterator in value
+  );
+}
+
+/**
+ * Stream an async iterable
+ * Strings are UTF-8 encoded, bytes are sent as is, other values as JSON lines
+ */
+function iterableStream(
+  iterable: AsyncIterable<unknown>
+): ReadableStream<Uint8Array> {
+  const iterator = iterable[Symbol.asyncIterator]();
+  return new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else if (typeof value === "string") {
+        controller.enqueue(encoder.encode(value));
+      } else if (value instanceof Uint8Array) {
+        controller.enqueue(value);
+      } else {
+        controller.enqueue(encoder.encode(`${JSON.stringify(value)}\n`));
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
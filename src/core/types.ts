@@ -1,20 +1,135 @@
+import type { Server } from "bun";
 import type { Context } from "../context/context";
+import type { WebSocketData } from "../websocket/types";
 
 export interface KyrinConfig {
   port?: number;
   hostname?: string;
   development?: boolean;
+  /**
+   * Secret for signed and encrypted cookies
+   * Pass several to rotate: the first signs, all are accepted when reading
+   */
+  secret?: string | string[];
+  /**
+   * Max request body size in bytes (413 above it)
+   * Raise or lower it per route or group with the `bodyLimit()` middleware;
+   * `listen()` sets Bun's `maxRequestBodySize` to the largest of them
+   */
+  bodyLimit?: number;
 }
 
+/**
+ * Typed request input carried by Context
+ * Narrowed by route schemas (see RouteSchema)
+ */
+export type ContextInput = {
+  params?: unknown;
+  query?: unknown;
+  headers?: unknown;
+  body?: unknown;
+};
+
+/** Bun server started by `listen()` */
+export type KyrinServer = Server<WebSocketData<any>>;
+
 /** Handler response types for auto-detection */
 export type HandlerResponse = Response | object | string | null | void;
 
-/** Route handler function */
-export type Handler = (
+/** Value returned by a handler (sync or async) */
+export type HandlerResult = HandlerResponse | Promise<HandlerResponse>;
+
+/**
+ * Custom conversion for handler return values (see `app.serializer()`)
+ * The serialized value is converted like any other handler result
+ */
+export interface Serializer<T = any> {
+  test: (value: unknown) => boolean;
+  serialize: (
+    value: T,
+    ctx: Context
+  ) => HandlerResponse | Promise<HandlerResponse>;
+}
+
+/**
+ * Route handler function
+ * `State` types `c.store`; `Decorators` are properties added by
+ * `app.decorate()` / `app.derive()`
+ */
+export type Handler<
+  I extends ContextInput = {},
+  R extends HandlerResult = HandlerResult,
+  State extends object = {},
+  Decorators extends object = {},
+> = (ctx: Context<I, State> & Decorators) => R;
+
+/**
+ * Application error handler
+ * Return a response to override the default, or nothing to fall back to it
+ */
+export type ErrorHandler = (
+  error: unknown,
   ctx: Context
 ) => HandlerResponse | Promise<HandlerResponse>;
 
-export type LookupResult = { handler: Handler; params: Record<string, string> };
+// ==================== Route Table ====================
+
+/** Data a handler sends, as seen by a client (Response bodies are unknown) */
+export type HandlerOutput<R> =
+  Awaited<R> extends Response ? unknown : JsonOutput<Awaited<R>>;
+
+type JsonOutput<T> = T extends Response
+  ? never
+  : T extends undefined | void
+    ? null
+    : T;
+
+/** Type info of a registered route, read by the typed client */
+export interface RouteEntry<S = {}, O = unknown> {
+  schema: S;
+  output: O;
+}
+
+/**
+ * Route table accumulated on `Kyrin`: path → lowercase method → entry
+ * @example
+ * // { "/users/:id": { get: RouteEntry<{}, User> } }
+ */
+export type AddRoute<
+  Routes,
+  M extends HttpMethod,
+  P extends string,
+  S,
+  R,
+> = Routes & {
+  [K in P]: { [X in Lowercase<M>]: RouteEntry<S, HandlerOutput<R>> };
+};
+
+/** Route table of a mounted app, keyed under its prefix */
+export type PrefixRoutes<Prefix extends string, Routes> = {
+  [K in keyof Routes & string as `${Prefix}${K}`]: Routes[K];
+};
+
+/** Options for `app.stop()` */
+export interface StopOptions {
+  /** Wait for in-flight requests to finish (default: true) */
+  graceful?: boolean;
+  /** Max time to wait (ms) before closing active connections */
+  timeout?: number;
+}
+
+/**
+ * Compiled request pipeline for a route
+ * Hooks, middleware, handler and response conversion in one function
+ */
+export type Pipeline = (ctx: Context) => Promise<Response>;
+
+export type LookupResult = {
+  handler: Handler;
+  params: Record<string, string>;
+  /** Set once the owning app has compiled its routes */
+  pipeline?: Pipeline;
+};
 
 export type HttpMethod =
   | "GET"
@@ -0,0 +1,153 @@
+/**
+ * Kyrin Framework - HTTP Errors
+ * Throwable errors that map to HTTP responses
+ */
+
+import type { ValidationIssue, ValidationTarget } from "../validator/types";
+import { statusTitle } from "./problem";
+
+export interface HttpErrorOptions {
+  /** Extra response headers (e.g., WWW-Authenticate, Retry-After) */
+  headers?: Record<string, string>;
+  /** Extension members merged into the problem details body */
+  payload?: Record<string, unknown>;
+  /** Problem type URI (default: "about:blank") */
+  type?: string;
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Base HTTP error
+ * Throw from handlers, middleware or hooks to send an error response
+ *
+ * @example
+ * throw new HttpError(418, "I'm a teapot");
+ * throw new NotFoundError("User not found");
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly headers: Record<string, string>;
+  readonly payload: Record<string, unknown>;
+  readonly type: string;
+
+  constructor(status: number, message?: string, options: HttpErrorOptions = {}) {
+    super(message ?? statusTitle(status), { cause: options.cause });
+    this.name = "HttpError";
+    this.status = status;
+    this.headers = options.headers ?? {};
+    this.payload = options.payload ?? {};
+    this.type = options.type ?? "about:blank";
+  }
+
+  /** Short summary for the status (used as problem `title`) */
+  get title(): string {
+    return statusTitle(this.status);
+  }
+}
+
+// ==================== 4xx ====================
+
+export class BadRequestError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(400, message, options);
+    this.name = "BadRequestError";
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(401, message, options);
+    this.name = "UnauthorizedError";
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(403, message, options);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(404, message, options);
+    this.name = "NotFoundError";
+  }
+}
+
+export class MethodNotAllowedError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(405, message, options);
+    this.name = "MethodNotAllowedError";
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(409, message, options);
+    this.name = "ConflictError";
+  }
+}
+
+export class PayloadTooLargeError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(413, message, options);
+    this.name = "PayloadTooLargeError";
+  }
+}
+
+export class UnsupportedMediaTypeError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(415, message, options);
+    this.name = "UnsupportedMediaTypeError";
+  }
+}
+
+export class UnprocessableEntityError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(422, message, options);
+    this.name = "UnprocessableEntityError";
+  }
+}
+
+/**
+ * Route schema validation failure
+ * 400 for params/query/headers, 422 for body
+ */
+export class ValidationError extends HttpError {
+  readonly target: ValidationTarget;
+  readonly issues: ValidationIssue[];
+
+  constructor(target: ValidationTarget, issues: ValidationIssue[]) {
+    super(target === "body" ? 422 : 400, `Invalid request ${target}`, {
+      payload: { target, issues },
+    });
+    this.name = "ValidationError";
+    this.target = target;
+    this.issues = issues;
+  }
+}
+
+export class TooManyRequestsError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(429, message, options);
+    this.name = "TooManyRequestsError";
+  }
+}
+
+// ==================== 5xx ====================
+
+export class InternalServerError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(500, message, options);
+    this.name = "InternalServerError";
+  }
+}
+
+export class ServiceUnavailableError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(503, message, options);
+    this.name = "ServiceUnavailableError";
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Kyrin Framework - Errors Module
+ * HTTP errors and Problem Details responses
+ */
+
+export * from "./http-error";
+export * from "./problem";
@@ -0,0 +1,71 @@
+/**
+ * Kyrin Framework - Problem Details
+ * RFC 9457 `application/problem+json` responses
+ */
+
+import { mergeHeaders, type HeaderValues } from "../core/headers";
+
+/** RFC 9457 Problem Details object */
+export interface ProblemDetails {
+  /** URI identifying the problem type (default: "about:blank") */
+  type: string;
+  /** Short human-readable summary */
+  title: string;
+  /** HTTP status code */
+  status: number;
+  /** Human-readable explanation for this occurrence */
+  detail?: string;
+  /** URI identifying this occurrence (usually the request path) */
+  instance?: string;
+  /** Extension members */
+  [key: string]: unknown;
+}
+
+/** Default titles for common error statuses */
+export const STATUS_TITLES: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  406: "Not Acceptable",
+  408: "Request Timeout",
+  409: "Conflict",
+  410: "Gone",
+  413: "Payload Too Large",
+  415: "Unsupported Media Type",
+  422: "Unprocessable Entity",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  501: "Not Implemented",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+};
+
+/** Get the default title for a status code */
+export function statusTitle(status: number): string {
+  return STATUS_TITLES[status] ?? (status >= 500 ? "Server Error" : "Client Error");
+}
+
+/**
+ * Build an `application/problem+json` response
+ * @example
+ * problemResponse({ status: 404, detail: "User 1 not found" });
+ */
+export function problemResponse(
+  problem: Partial<ProblemDetails> & { status: number },
+  headers: HeaderValues = {}
+): Response {
+  const body: ProblemDetails = {
+    type: "about:blank",
+    title: statusTitle(problem.status),
+    ...problem,
+  };
+  return new Response(JSON.stringify(body), {
+    status: problem.status,
+    headers: mergeHeaders(headers, {
+      "Content-Type": "application/problem+json",
+    }),
+  });
+}
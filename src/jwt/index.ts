@@ -0,0 +1,7 @@
+/**
+ * Kyrin Framework - JWT Module
+ * JSON Web Tokens signed and verified with WebCrypto
+ */
+
+export * from "./types";
+export { sign, verify, JwtError } from "./jwt";
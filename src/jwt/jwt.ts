@@ -0,0 +1,314 @@
+/**
+ * Kyrin Framework - JWT
+ * Signing and verification of HS256 / RS256 / ES256 tokens with WebCrypto
+ */
+
+import { createPublicKey, type webcrypto } from "node:crypto";
+import type {
+  JwtAlgorithm,
+  JwtClaims,
+  JwtKey,
+  JwtSignOptions,
+  JwtVerifyOptions,
+} from "./types";
+
+interface AlgorithmParams {
+  import:
+    | webcrypto.HmacImportParams
+    | webcrypto.RsaHashedImportParams
+    | webcrypto.EcKeyImportParams;
+  sign: webcrypto.AlgorithmIdentifier | webcrypto.EcdsaParams;
+}
+
+/** Import and sign/verify parameters per algorithm */
+const ALGORITHMS: Record<JwtAlgorithm, AlgorithmParams> = {
+  HS256: {
+    import: { name: "HMAC", hash: "SHA-256" },
+    sign: "HMAC",
+  },
+  RS256: {
+    import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    sign: "RSASSA-PKCS1-v1_5",
+  },
+  ES256: {
+    import: { name: "ECDSA", namedCurve: "P-256" },
+    sign: { name: "ECDSA", hash: "SHA-256" },
+  },
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Token rejected by `verify()`
+ * The message is safe to send to clients
+ */
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JwtError";
+  }
+}
+
+// ==================== Sign ====================
+
+/**
+ * Issue a token
+ * @param key - HS256 secret, or the private key for RS256 / ES256
+ * @example
+ * const token = await sign({ sub: user.id, role: "admin" }, secret, {
+ *   expiresIn: 60 * 60,
+ * });
+ */
+export async function sign(
+  payload: JwtClaims & Record<string, unknown>,
+  key: JwtKey,
+  options: JwtSignOptions = {}
+): Promise<string> {
+  const { algorithm = "HS256" } = options;
+  const now = Math.floor(Date.now() / 1000);
+
+  const claims: Record<string, unknown> = { iat: now, ...payload };
+  if (options.expiresIn !== undefined) claims.exp = now + options.expiresIn;
+  if (options.notBefore !== undefined) claims.nbf = now + options.notBefore;
+  if (options.issuer !== undefined) claims.iss = options.issuer;
+  if (options.audience !== undefined) claims.aud = options.audience;
+  if (options.subject !== undefined) claims.sub = options.subject;
+
+  const header = {
+    alg: algorithm,
+    typ: "JWT",
+    ...(options.keyId && { kid: options.keyId }),
+  };
+  const input = `${encodeJson(header)}.${encodeJson(claims)}`;
+  const cryptoKey = await importKey(key, algorithm, "sign");
+  const signature = await crypto.subtle.sign(
+    ALGORITHMS[algorithm].sign,
+    cryptoKey,
+    encoder.encode(input)
+  );
+  return `${input}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// ==================== Verify ====================
+
+/**
+ * Verify a token's signature and `exp` / `nbf` / `iss` / `aud`
+ * Claims are not validated beyond that: only trust what you signed
+ * @throws JwtError when the token is rejected
+ * @example
+ * const claims = await verify<{ role: string }>(token, { secret });
+ */
+export async function verify<Claims extends object = {}>(
+  token: string,
+  options: JwtVerifyOptions
+): Promise<Claims & JwtClaims> {
+  const { secret, publicKey, leeway = 0 } = options;
+  // The public key decides between RS256 and ES256, never the token header
+  const publicAlgorithm = publicKey ? keyAlgorithm(publicKey) : undefined;
+  const algorithms = options.algorithms ?? [
+    ...(secret ? (["HS256"] as const) : []),
+    ...(publicAlgorithm ? [publicAlgorithm] : []),
+  ];
+
+  const parts = token.split(".");
+  if (parts.length !== 3) throw new JwtError("Malformed token");
+  const [encodedHeader, encodedPayload, encodedSignature] = parts as [
+    string,
+    string,
+    string,
+  ];
+  const header = decodeJson(encodedHeader);
+  const claims = decodeJson(encodedPayload) as Claims & JwtClaims;
+  const signature = fromBase64Url(encodedSignature);
+  if (!header || !claims || !signature) {
+    throw new JwtError("Malformed token");
+  }
+
+  // The key type decides the algorithm (no HS256 with a public key, no
+  // ES256 with an RSA key)
+  const alg = header.alg as JwtAlgorithm;
+  const key = alg === "HS256" ? secret : publicKey;
+  if (
+    !algorithms.includes(alg) ||
+    !(alg in ALGORITHMS) ||
+    !key ||
+    (alg !== "HS256" && alg !== publicAlgorithm)
+  ) {
+    throw new JwtError("Unsupported algorithm");
+  }
+  if (header.crit !== undefined) {
+    throw new JwtError("Unsupported critical header");
+  }
+
+  let valid: boolean;
+  try {
+    const cryptoKey = await importKey(key, alg, "verify");
+    valid = await crypto.subtle.verify(
+      ALGORITHMS[alg].sign,
+      cryptoKey,
+      signature,
+      encoder.encode(`${encodedHeader}.${encodedPayload}`)
+    );
+  } catch {
+    // Key import or signature decoding failed: still a rejected token
+    valid = false;
+  }
+  if (!valid) throw new JwtError("Invalid signature");
+
+  const now = Math.floor(Date.now() / 1000);
+  if (claims.exp !== undefined) {
+    if (typeof claims.exp !== "number") throw new JwtError("Malformed token");
+    if (now >= claims.exp + leeway) throw new JwtError("Token expired");
+  }
+  if (claims.nbf !== undefined) {
+    if (typeof claims.nbf !== "number") throw new JwtError("Malformed token");
+    if (now + leeway < claims.nbf) throw new JwtError("Token not yet valid");
+  }
+  if (options.issuer !== undefined) {
+    const issuers = toArray(options.issuer);
+    if (!claims.iss || !issuers.includes(claims.iss)) {
+      throw new JwtError("Invalid issuer");
+    }
+  }
+  if (options.audience !== undefined) {
+    const audiences = toArray(options.audience);
+    const tokenAudiences = claims.aud === undefined ? [] : toArray(claims.aud);
+    if (!tokenAudiences.some((aud) => audiences.includes(aud))) {
+      throw new JwtError("Invalid audience");
+    }
+  }
+  return claims;
+}
+
+// ==================== Keys ====================
+
+const stringKeys = new Map<string, Promise<CryptoKey>>();
+const jwkKeys = new WeakMap<
+  webcrypto.JsonWebKey,
+  Map<string, Promise<CryptoKey>>
+>();
+
+/** Import (and cache) key material for an algorithm */
+function importKey(
+  key: JwtKey,
+  alg: JwtAlgorithm,
+  usage: "sign" | "verify"
+): Promise<CryptoKey> {
+  if (key instanceof CryptoKey) return Promise.resolve(key);
+
+  const cacheKey = `${alg}:${usage}`;
+  let cache: Map<string, Promise<CryptoKey>>;
+  let id = cacheKey;
+  if (typeof key === "string") {
+    cache = stringKeys;
+    id = `${cacheKey}:${key}`;
+  } else {
+    cache = jwkKeys.get(key) ?? new Map();
+    jwkKeys.set(key, cache);
+  }
+
+  let imported = cache.get(id);
+  if (!imported) {
+    const params = ALGORITHMS[alg].import;
+    imported =
+      typeof key !== "string"
+        ? crypto.subtle.importKey("jwk", key, params, false, [usage])
+        : alg === "HS256"
+          ? crypto.subtle.importKey(
+              "raw",
+              encoder.encode(key),
+              params,
+              false,
+              [usage]
+            )
+          : crypto.subtle.importKey(
+              usage === "sign" ? "pkcs8" : "spki",
+              fromPem(key),
+              params,
+              false,
+              [usage]
+            );
+    // Don't cache failures (e.g., a key of the wrong type)
+    imported.catch(() => cache.delete(id));
+    cache.set(id, imported);
+  }
+  return imported;
+}
+
+const pemAlgorithms = new Map<string, JwtAlgorithm | undefined>();
+
+/** RS256 / ES256 from the type of a public key (undefined if neither) */
+function keyAlgorithm(key: JwtKey): JwtAlgorithm | undefined {
+  if (key instanceof CryptoKey) {
+    const { name, namedCurve } = key.algorithm as webcrypto.EcKeyAlgorithm;
+    if (name === "RSASSA-PKCS1-v1_5") return "RS256";
+    if (name === "ECDSA" && namedCurve === "P-256") return "ES256";
+    return undefined;
+  }
+  if (typeof key !== "string") {
+    if (key.kty === "RSA") return "RS256";
+    if (key.kty === "EC" && key.crv === "P-256") return "ES256";
+    return undefined;
+  }
+
+  if (!pemAlgorithms.has(key)) {
+    let alg: JwtAlgorithm | undefined;
+    try {
+      const parsed = createPublicKey(key);
+      if (parsed.asymmetricKeyType === "rsa") alg = "RS256";
+      if (
+        parsed.asymmetricKeyType === "ec" &&
+        parsed.asymmetricKeyDetails?.namedCurve === "prime256v1"
+      ) {
+        alg = "ES256";
+      }
+    } catch {
+      alg = undefined;
+    }
+    pemAlgorithms.set(key, alg);
+  }
+  return pemAlgorithms.get(key);
+}
+
+/** DER bytes of a PEM key */
+function fromPem(pem: string): Uint8Array<ArrayBuffer> {
+  const body = pem
+    .replace(/-----(BEGIN|END) [A-Z ]+-----/g, "")
+    .replace(/\s+/g, "");
+  return new Uint8Array(Buffer.from(body, "base64"));
+}
+
+// ==================== Private Helpers ====================
+
+function toArray(value: string | string[]): string[] {
+  return typeof value === "string" ? [value] : value;
+}
+
+function encodeJson(value: unknown): string {
+  return toBase64Url(encoder.encode(JSON.stringify(value)));
+}
+
+function decodeJson(text: string): Record<string, unknown> | undefined {
+  const bytes = fromBase64Url(text);
+  if (!bytes) return undefined;
+  try {
+    const value = JSON.parse(decoder.decode(bytes));
+    return value && typeof value === "object" && !Array.isArray(value)
+      ? value
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("base64url");
+}
+
+function fromBase64Url(
+  text: string
+): Uint8Array<ArrayBuffer> | undefined {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) return undefined;
+  return new Uint8Array(Buffer.from(text, "base64url"));
+}
@@ -0,0 +1,58 @@
+/**
+ * Kyrin Framework - JWT Types
+ */
+
+import type { webcrypto } from "node:crypto";
+
+export type JwtAlgorithm = "HS256" | "RS256" | "ES256";
+
+/** Registered claims (RFC 7519 §4.1); times are Unix seconds */
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+}
+
+/**
+ * Key material
+ * - HS256: the shared secret
+ * - RS256 / ES256: a PEM key (SPKI public / PKCS#8 private), a JWK or a
+ *   CryptoKey
+ */
+export type JwtKey = string | webcrypto.JsonWebKey | CryptoKey;
+
+export interface JwtVerifyOptions {
+  /** Shared secret for HS256 */
+  secret?: JwtKey;
+  /** Public key for RS256 / ES256 */
+  publicKey?: JwtKey;
+  /**
+   * Accepted algorithms (default: HS256 with a secret, and RS256 or ES256
+   * as the type of `publicKey` says)
+   */
+  algorithms?: JwtAlgorithm[];
+  /** Required `iss` (any of) */
+  issuer?: string | string[];
+  /** Required `aud` (any of) */
+  audience?: string | string[];
+  /** Clock skew tolerated for `exp` / `nbf`, in seconds (default: 0) */
+  leeway?: number;
+}
+
+export interface JwtSignOptions {
+  /** Default: "HS256" */
+  algorithm?: JwtAlgorithm;
+  /** Sets `exp` this many seconds from now */
+  expiresIn?: number;
+  /** Sets `nbf` this many seconds from now */
+  notBefore?: number;
+  issuer?: string;
+  audience?: string | string[];
+  subject?: string;
+  /** `kid` header */
+  keyId?: string;
+}
@@ -21,13 +21,77 @@ export type {
   HttpMethod,
   KyrinConfig,
   LookupResult,
+  ContextInput,
+  ErrorHandler,
+  StopOptions,
+  KyrinServer,
+  HandlerResult,
+  HandlerOutput,
+  RouteEntry,
+  Serializer,
 } from "./core/types";
+export { mergeHeaders } from "./core/headers";
+export type { HeaderValues } from "./core/headers";
+
+// Errors
+export {
+  HttpError,
+  BadRequestError,
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  MethodNotAllowedError,
+  ConflictError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+  UnprocessableEntityError,
+  ValidationError,
+  TooManyRequestsError,
+  InternalServerError,
+  ServiceUnavailableError,
+  problemResponse,
+} from "./errors";
+export type { HttpErrorOptions, ProblemDetails } from "./errors";
 
 // Router
 export { Router } from "./router/router";
+export type { RouteDefinition } from "./router/router";
+
+// Validation
+export { z } from "zod";
+export type {
+  RouteSchema,
+  RouteDetail,
+  InferSchema,
+  ValidationTarget,
+  ValidationIssue,
+} from "./validator";
 
 // Context
-export { Context } from "./context/context";
+export {
+  Context,
+  StreamWriter,
+  SSEStream,
+  parseCookies,
+  serializeCookie,
+  parseQuery,
+  appendQuery,
+} from "./context";
+export type {
+  SSEMessage,
+  SSEOptions,
+  StreamCallback,
+  CookieOptions,
+  QueryOptions,
+  QueryValue,
+  UploadOptions,
+  SinkUploadOptions,
+  UploadSink,
+  UploadedFile,
+  StoredFile,
+  SinkFile,
+  UploadResult,
+} from "./context";
 
 // Database
 export { Database, database, SQLiteClient } from "./db";
@@ -48,11 +112,105 @@ export type { InferColumns, SchemaColumns } from "./schema";
 export type {
   MiddlewareHandler,
   HookHandler,
+  ResponseHook,
+  StartHook,
+  StopHook,
   KyrinPlugin,
   PluginFactory,
 } from "./middleware";
 export { compose } from "./middleware";
 
 // Plugins
-export { cors } from "./plugins";
-export type { CorsOptions } from "./plugins";
+export {
+  cors,
+  openapiDocs,
+  serveStatic,
+  compress,
+  session,
+  jwt,
+  rateLimit,
+  bodyLimit,
+  secureHeaders,
+  secureHeadersOverride,
+} from "./plugins";
+export type {
+  CorsOptions,
+  OpenAPIDocsOptions,
+  ServeStaticOptions,
+  CompressOptions,
+  CompressionEncoding,
+  JwtOptions,
+  SecureHeadersOptions,
+  CspOptions,
+  CspDirectives,
+  HstsOptions,
+} from "./plugins";
+
+// Sessions
+export {
+  Session,
+  MemorySessionStore,
+  SQLiteSessionStore,
+} from "./session";
+export type {
+  SessionOptions,
+  SessionRecord,
+  SessionStore,
+  SQLiteSessionStoreOptions,
+} from "./session";
+
+// JWT
+export { sign, verify, JwtError } from "./jwt";
+export type {
+  JwtAlgorithm,
+  JwtClaims,
+  JwtKey,
+  JwtSignOptions,
+  JwtVerifyOptions,
+} from "./jwt";
+
+// Rate Limiting
+export { MemoryRateLimitStore, SQLiteRateLimitStore } from "./rate-limit";
+export type {
+  RateLimitAlgorithm,
+  RateLimitOptions,
+  RateLimitPlugin,
+  RateLimitResult,
+  RateLimitState,
+  RateLimitStore,
+  SQLiteRateLimitStoreOptions,
+} from "./rate-limit";
+
+// OpenAPI
+export { generateOpenAPI } from "./openapi";
+export type {
+  OpenAPIDocument,
+  OpenAPIOptions,
+  OpenAPIOperation,
+  JSONSchema,
+} from "./openapi";
+
+// WebSocket
+export type {
+  WebSocketHandlers,
+  WebSocketData,
+  KyrinWebSocket,
+} from "./websocket";
+
+// Testing
+export { TestClient, testClient } from "./testing";
+export type {
+  Fetchable,
+  TestClientOptions,
+  TestRequestInit,
+  TestResponse,
+} from "./testing";
+
+// Typed Client
+export { createClient, ClientError } from "./client";
+export type {
+  ClientInput,
+  ClientOf,
+  ClientOptions,
+  ClientQuery,
+} from "./client";
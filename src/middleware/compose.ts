@@ -3,8 +3,11 @@
  * Onion model execution for middleware chain
  */
 
-import type { MiddlewareHandler } from "./types";
+import type { MiddlewareHandler, HookHandler, ResponseHook } from "./types";
 import type { Context } from "../context/context";
+import type { Handler } from "../core/types";
+import { toResponse } from "../core/response";
+import { InternalServerError } from "../errors/http-error";
 
 /**
  * Compose multiple middleware into single function
@@ -20,13 +23,13 @@ export function compose(middlewares: MiddlewareHandler[]) {
     let index = -1;
     let response: Response | undefined;
 
-    async function dispatch(i: number): Promise<void> {
+    async function dispatch(i: number): Promise<Response | undefined> {
       if (i <= index) throw new Error("next() called multiple times");
       index = i;
 
       if (i === middlewares.length) {
         response = await handler();
-        return;
+        return response;
       }
 
       const fn = middlewares[i];
@@ -34,9 +37,88 @@ export function compose(middlewares: MiddlewareHandler[]) {
         const result = await fn(c, () => dispatch(i + 1));
         if (result instanceof Response) response = result;
       }
+      return response;
     }
 
-    await dispatch(0);
+    return dispatch(0);
+  };
+}
+
+/**
+ * Build a middleware chain around a final step, once
+ * Same onion semantics as `compose`, without per-request bookkeeping
+ * (used by compiled pipelines)
+ */
+export function chain(
+  middlewares: MiddlewareHandler[],
+  last: (c: Context) => Promise<Response>
+): (c: Context) => Promise<Response | undefined> {
+  return middlewares.reduceRight<
+    (c: Context) => Promise<Response | undefined>
+  >(
+    (next, middleware) => async (c) => {
+      let downstream: Promise<Response | undefined> | undefined;
+      const result = await middleware(c, () => {
+        if (downstream) {
+          return Promise.reject(new Error("next() called multiple times"));
+        }
+        return (downstream = next(c));
+      });
+      return result instanceof Response ? result : downstream;
+    },
+    last
+  );
+}
+
+/**
+ * Wrap a route handler with its own middleware chain
+ * Middleware can short-circuit with a Response or run code after next()
+ */
+export function withMiddleware(
+  middlewares: MiddlewareHandler[],
+  handler: Handler<any>
+): Handler {
+  const run = chain(middlewares, async (c) => toResponse(await handler(c), c));
+  return async (c) => {
+    const response = await run(c);
+    if (!response) {
+      throw new InternalServerError("Middleware did not produce a response");
+    }
+    return response;
+  };
+}
+
+/**
+ * Turn request/response hooks into a single middleware
+ * Used to keep hooks of grouped apps scoped to their routes
+ * With `handleError`, errors become responses that the response hooks see
+ */
+export function hooksToMiddleware(
+  requestHooks: HookHandler[],
+  responseHooks: ResponseHook[],
+  handleError?: (error: unknown, c: Context) => Promise<Response>
+): MiddlewareHandler {
+  return async (c, next) => {
+    let response: Response | undefined;
+    try {
+      for (const hook of requestHooks) {
+        const result = await hook(c);
+        if (result instanceof Response) {
+          response = result;
+          break;
+        }
+      }
+      response ??= await next();
+    } catch (error) {
+      if (!handleError) throw error;
+      response = await handleError(error, c);
+    }
+    if (!response) return;
+
+    for (const hook of responseHooks) {
+      const result = await hook(c, response);
+      if (result instanceof Response) response = result;
+    }
     return response;
   };
 }
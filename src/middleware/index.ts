@@ -3,4 +3,4 @@
  */
 
 export * from "./types";
-export { compose } from "./compose";
+export { compose, withMiddleware, hooksToMiddleware } from "./compose";
@@ -4,15 +4,18 @@
  */
 
 import type { Context } from "../context/context";
+import type { KyrinServer } from "../core/types";
+import type { Kyrin } from "../core/kyrin";
 
 /**
  * Middleware Handler (Onion Model)
  * Code before next() = beforeHandle
  * Code after next() = afterHandle
+ * `next()` resolves to the downstream Response; return a Response to replace it
  */
 export type MiddlewareHandler = (
   c: Context,
-  next: () => Promise<void>
+  next: () => Promise<Response | undefined>
 ) => void | Response | Promise<void | Response>;
 
 /**
@@ -24,14 +27,41 @@ export type HookHandler = (
   c: Context
 ) => void | Response | Promise<void | Response>;
 
+/**
+ * Response hook: runs with the final Response, also after a request hook
+ * short-circuits or an error response is sent
+ * Return a Response to replace it
+ */
+export type ResponseHook = (
+  c: Context,
+  response: Response
+) => void | Response | Promise<void | Response>;
+
+/**
+ * Lifecycle hook: runs after the server starts listening
+ */
+export type StartHook = (server: KyrinServer) => void | Promise<void>;
+
+/**
+ * Lifecycle hook: runs after the server stops (close DBs, flush logs)
+ */
+export type StopHook = () => void | Promise<void>;
+
 /**
  * Plugin definition
+ * `Decorators` types the context values the plugin adds (see `app.use()`)
  */
-export type KyrinPlugin = {
+export type KyrinPlugin<Decorators extends object = {}> = {
   name: string;
+  /** Runs once when the plugin is registered (e.g., to add routes) */
+  setup?: (app: Kyrin) => void;
   middleware?: MiddlewareHandler;
   onRequest?: HookHandler;
-  onResponse?: HookHandler;
+  onResponse?: ResponseHook;
+  onStart?: StartHook;
+  onStop?: StopHook;
+  /** Type-only: carries `Decorators` (never set at runtime) */
+  readonly "~decorators"?: Decorators;
 };
 
 /**
@@ -0,0 +1,169 @@
+/**
+ * Kyrin Framework - OpenAPI Generator
+ * Builds an OpenAPI 3.1 document from registered routes
+ */
+
+import { z } from "zod";
+import type { RouteDefinition } from "../router/router";
+import { statusTitle } from "../errors/problem";
+import type {
+  JSONSchema,
+  OpenAPIDocument,
+  OpenAPIOperation,
+  OpenAPIOptions,
+  OpenAPIParameter,
+  OpenAPIResponse,
+} from "./types";
+
+/**
+ * Generate an OpenAPI 3.1 document
+ * @example
+ * const doc = generateOpenAPI(router.getRoutes(), { info: { title: "My API" } });
+ */
+export function generateOpenAPI(
+  routes: RouteDefinition[],
+  options: OpenAPIOptions = {}
+): OpenAPIDocument {
+  const paths: OpenAPIDocument["paths"] = {};
+
+  for (const route of routes) {
+    if (route.schema?.detail?.hide) continue;
+
+    const path = toOpenAPIPath(route.path);
+    const item = (paths[path] ??= {});
+    const method = route.method.toLowerCase() as keyof typeof item;
+    item[method] = buildOperation(route);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Kyrin API",
+      version: "1.0.0",
+      ...options.info,
+    },
+    ...(options.servers && { servers: options.servers }),
+    ...(options.tags && { tags: options.tags }),
+    paths,
+    ...(options.components && { components: options.components }),
+    ...(options.security && { security: options.security }),
+  };
+}
+
+/**
+ * Convert Kyrin path syntax to OpenAPI
+ * @example '/users/:id/*' → '/users/{id}/{wildcard}'
+ * @example '/docs/*slug' → '/docs/{slug}'
+ */
+export function toOpenAPIPath(path: string): string {
+  return path
+    .split("/")
+    .map((segment) => {
+      if (segment.startsWith(":")) return `{${segment.slice(1)}}`;
+      if (segment.startsWith("*")) return `{${segment.slice(1) || "wildcard"}}`;
+      return segment;
+    })
+    .join("/");
+}
+
+// ==================== Private Helpers ====================
+
+const SUCCESS_DESCRIPTIONS: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  202: "Accepted",
+  204: "No Content",
+};
+
+function buildOperation(route: RouteDefinition): OpenAPIOperation {
+  const { schema = {} } = route;
+  const { hide: _hide, ...detail } = schema.detail ?? {};
+
+  const parameters = [
+    ...pathParameters(route.path, schema.params),
+    ...objectParameters("query", schema.query),
+    ...objectParameters("header", schema.headers),
+  ];
+
+  return {
+    ...detail,
+    ...(parameters.length > 0 && { parameters }),
+    ...(schema.body && {
+      requestBody: {
+        required: true,
+        content: { "application/json": { schema: toSchema(schema.body) } },
+      },
+    }),
+    responses: buildResponses(schema.response),
+  };
+}
+
+function pathParameters(
+  path: string,
+  params: z.ZodType | undefined
+): OpenAPIParameter[] {
+  const properties = params ? objectProperties(toSchema(params)) : {};
+  return path
+    .split("/")
+    .filter((segment) => segment.startsWith(":") || segment.startsWith("*"))
+    .map((segment) => {
+      const name = segment.slice(1) || "wildcard";
+      return {
+        name,
+        in: "path",
+        required: true,
+        schema: properties[name] ?? { type: "string" },
+      };
+    });
+}
+
+/** Expand an object schema into one parameter per property */
+function objectParameters(
+  location: "query" | "header",
+  schema: z.ZodType | undefined
+): OpenAPIParameter[] {
+  if (!schema) return [];
+  const json = toSchema(schema);
+  const required = new Set((json.required as string[] | undefined) ?? []);
+
+  return Object.entries(objectProperties(json)).map(([name, property]) => ({
+    name,
+    in: location,
+    required: required.has(name),
+    schema: property,
+    ...(location === "query" && property.type === "object"
+      ? { style: "deepObject" as const, explode: true }
+      : {}),
+  }));
+}
+
+function buildResponses(
+  response: z.ZodType | Record<number, z.ZodType> | undefined
+): Record<string, OpenAPIResponse> {
+  if (!response) return { "200": { description: "OK" } };
+
+  const byStatus =
+    response instanceof z.ZodType ? { 200: response } : response;
+  const responses: Record<string, OpenAPIResponse> = {};
+  for (const [status, schema] of Object.entries(byStatus)) {
+    responses[status] = {
+      description:
+        SUCCESS_DESCRIPTIONS[Number(status)] ?? statusTitle(Number(status)),
+      content: { "application/json": { schema: toSchema(schema) } },
+    };
+  }
+  return responses;
+}
+
+function objectProperties(schema: JSONSchema): Record<string, JSONSchema> {
+  return (schema.properties as Record<string, JSONSchema> | undefined) ?? {};
+}
+
+/** Zod → JSON Schema (input shape, unrepresentable types become `{}`) */
+function toSchema(schema: z.ZodType): JSONSchema {
+  const { $schema: _, ...json } = z.toJSONSchema(schema, {
+    io: "input",
+    unrepresentable: "any",
+  }) as JSONSchema;
+  return json;
+}
@@ -0,0 +1,7 @@
+/**
+ * Kyrin Framework - OpenAPI Module
+ * OpenAPI 3.1 document generation
+ */
+
+export * from "./types";
+export { generateOpenAPI, toOpenAPIPath } from "./generate";
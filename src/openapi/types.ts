@@ -0,0 +1,78 @@
+/**
+ * Kyrin Framework - OpenAPI Types
+ * Minimal OpenAPI 3.1 document model
+ */
+
+/** JSON Schema object (draft 2020-12, as used by OpenAPI 3.1) */
+export type JSONSchema = Record<string, unknown>;
+
+export interface OpenAPIInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+export interface OpenAPIParameter {
+  name: string;
+  in: "path" | "query" | "header";
+  required: boolean;
+  schema: JSONSchema;
+  description?: string;
+  /** "deepObject" for nested query objects (`filter[status]=open`) */
+  style?: "form" | "simple" | "deepObject";
+  explode?: boolean;
+}
+
+export interface OpenAPIMediaType {
+  schema: JSONSchema;
+}
+
+export interface OpenAPIRequestBody {
+  required: boolean;
+  content: Record<string, OpenAPIMediaType>;
+}
+
+export interface OpenAPIResponse {
+  description: string;
+  content?: Record<string, OpenAPIMediaType>;
+}
+
+export interface OpenAPIOperation {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  operationId?: string;
+  deprecated?: boolean;
+  security?: Record<string, string[]>[];
+  parameters?: OpenAPIParameter[];
+  requestBody?: OpenAPIRequestBody;
+  responses: Record<string, OpenAPIResponse>;
+}
+
+export type OpenAPIPathItem = Partial<
+  Record<
+    "get" | "post" | "put" | "delete" | "patch" | "options" | "head",
+    OpenAPIOperation
+  >
+>;
+
+export interface OpenAPIDocument {
+  openapi: "3.1.0";
+  info: OpenAPIInfo;
+  servers?: { url: string; description?: string }[];
+  tags?: { name: string; description?: string }[];
+  paths: Record<string, OpenAPIPathItem>;
+  components?: Record<string, unknown>;
+  security?: Record<string, string[]>[];
+}
+
+/** Document-level options for `app.openapi()` */
+export interface OpenAPIOptions {
+  info?: Partial<OpenAPIInfo>;
+  servers?: OpenAPIDocument["servers"];
+  tags?: OpenAPIDocument["tags"];
+  /** Components such as `securitySchemes` */
+  components?: OpenAPIDocument["components"];
+  /** Default security requirements for all operations */
+  security?: OpenAPIDocument["security"];
+}
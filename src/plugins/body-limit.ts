@@ -0,0 +1,29 @@
+/**
+ * Kyrin Framework - Body Limit Middleware
+ * Per-route or per-group request body size limits
+ */
+
+import type { MiddlewareHandler } from "../middleware/types";
+import { bodyLimits, checkContentLength } from "../context/body";
+
+/**
+ * Body Limit Middleware
+ * Overrides the `bodyLimit` config for the routes it runs on. A declared
+ * Content-Length over the limit gets a 413 right away; bodies without one
+ * are cut off once the limit is reached while reading
+ *
+ * @example
+ * const app = new Kyrin({ bodyLimit: 1024 * 1024 });
+ * app.post("/avatar", bodyLimit(10 * 1024 * 1024), async (c) => {
+ *   const [file] = await c.files({ allowedTypes: ["image/*"] });
+ * });
+ */
+export function bodyLimit(bytes: number): MiddlewareHandler {
+  const middleware: MiddlewareHandler = (c, next) => {
+    c.bodyLimit = bytes;
+    checkContentLength(c.req, bytes);
+    return next();
+  };
+  bodyLimits.set(middleware, bytes);
+  return middleware;
+}
@@ -0,0 +1,208 @@
+/**
+ * Kyrin Framework - Compression Plugin
+ * Compresses responses with gzip, deflate or brotli
+ */
+
+import type { PluginFactory } from "../middleware/types";
+
+export type CompressionEncoding = "br" | "gzip" | "deflate";
+
+export interface CompressOptions {
+  /** Encodings by server preference (default: ["br", "gzip", "deflate"]) */
+  encodings?: CompressionEncoding[];
+  /** Minimum body size in bytes (default: 1024) */
+  threshold?: number;
+  /** Decide per Content-Type (default: skips already-compressed types) */
+  filter?: (contentType: string) => boolean;
+}
+
+type CompressionFormat = ConstructorParameters<typeof CompressionStream>[0];
+
+/** CompressionStream format for each Content-Encoding (Bun adds "brotli") */
+const FORMATS: Record<CompressionEncoding, string> = {
+  br: "brotli",
+  gzip: "gzip",
+  deflate: "deflate",
+};
+
+/** Already compressed content types (and event streams) */
+const SKIP_TYPES = [
+  /^image\/(?!svg\+xml)/,
+  /^video\//,
+  /^audio\//,
+  /^font\/woff2?/,
+  /^text\/event-stream/,
+  /^application\/(zip|gzip|x-gzip|x-bzip2?|x-7z-compressed|zstd|pdf)/,
+  /^application\/(x-rar-compressed|octet-stream)/,
+];
+
+const PENDING = Symbol("pending");
+
+/**
+ * Compression Plugin
+ * Bodies under `threshold` are sent as they are: by Content-Length, or for
+ * bodies without one, by what is already buffered. A live stream (e.g.
+ * `c.stream()`) is compressed as it is written, whatever its size, so no
+ * chunk is held back waiting for the threshold
+ *
+ * @example
+ * app.use(cors());
+ * app.use(compress());
+ * app.use(compress({ encodings: ["gzip"], threshold: 2048 }));
+ */
+export const compress: PluginFactory<CompressOptions> = (options = {}) => {
+  const {
+    encodings = ["br", "gzip", "deflate"],
+    threshold = 1024,
+    filter = (contentType: string) =>
+      !SKIP_TYPES.some((type) => type.test(contentType.toLowerCase())),
+  } = options;
+
+  return {
+    name: "compress",
+    onResponse: async (c, response) => {
+      const contentType = response.headers.get("Content-Type");
+      const cacheControl = response.headers.get("Cache-Control") ?? "";
+      if (
+        !response.body ||
+        c.method === "HEAD" ||
+        response.status < 200 ||
+        response.status === 204 ||
+        response.status === 206 ||
+        response.status === 304 ||
+        response.headers.has("Content-Encoding") ||
+        /\bno-transform\b/i.test(cacheControl) ||
+        !contentType ||
+        !filter(contentType)
+      ) {
+        return;
+      }
+
+      const headers = new Headers(response.headers);
+      if (!/\baccept-encoding\b|\*/i.test(headers.get("Vary") ?? "")) {
+        headers.append("Vary", "Accept-Encoding");
+      }
+      const init = {
+        status: response.status,
+        statusText: response.statusText,
+      };
+
+      const accept = c.header("Accept-Encoding") ?? "";
+      const encoding = negotiate(accept, encodings);
+      const length = response.headers.get("Content-Length");
+      if (!encoding || (length !== null && Number(length) < threshold)) {
+        return new Response(response.body, { ...init, headers });
+      }
+
+      let body = response.body;
+      if (length === null) {
+        const peeked = await peek(body, threshold);
+        if (peeked.complete) {
+          return new Response(peeked.body, { ...init, headers });
+        }
+        body = peeked.body;
+      }
+
+      headers.delete("Content-Length");
+      headers.set("Content-Encoding", encoding);
+      const etag = headers.get("ETag");
+      if (etag && !etag.startsWith("W/")) headers.set("ETag", `W/${etag}`);
+
+      const stream = new CompressionStream(
+        FORMATS[encoding] as CompressionFormat
+      );
+      return new Response(body.pipeThrough(stream), { ...init, headers });
+    },
+  };
+};
+
+// ==================== Private Helpers ====================
+
+/**
+ * Pick an encoding from Accept-Encoding
+ * Highest q-value wins; ties go to the server preference order
+ */
+function negotiate(
+  header: string,
+  encodings: CompressionEncoding[]
+): CompressionEncoding | undefined {
+  const weights = new Map<string, number>();
+  for (const part of header.split(",")) {
+    const [name, ...params] = part.trim().toLowerCase().split(";");
+    if (!name) continue;
+    const q = params
+      .map((param) => param.trim())
+      .find((param) => param.startsWith("q="));
+    weights.set(name, q ? Number(q.slice(2)) || 0 : 1);
+  }
+
+  let best: CompressionEncoding | undefined;
+  let bestWeight = 0;
+  for (const encoding of encodings) {
+    const weight = weights.get(encoding) ?? weights.get("*") ?? 0;
+    if (weight > bestWeight) {
+      best = encoding;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+/**
+ * Read what is already buffered in a body, up to `threshold` bytes
+ * `complete` is set when the whole body is below the threshold; otherwise
+ * (large or still streaming) `body` replays the read chunks and the rest
+ */
+async function peek(
+  source: ReadableStream<Uint8Array>,
+  threshold: number
+): Promise<
+  | { complete: true; body: Uint8Array }
+  | { complete: false; body: ReadableStream<Uint8Array> }
+> {
+  const reader = source.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let pending: ReturnType<typeof reader.read> | undefined;
+
+  while (size < threshold) {
+    const read = reader.read();
+    // In-memory bodies resolve at once; a pending read means a live stream
+    const result = await Promise.race([read, Promise.resolve(PENDING)]);
+    if (result === PENDING) {
+      pending = read;
+      break;
+    }
+    if (result.done) {
+      return { body: concat(chunks, size), complete: true };
+    }
+    chunks.push(result.value);
+    size += result.value.byteLength;
+  }
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const chunk = chunks.shift();
+      if (chunk) return controller.enqueue(chunk);
+
+      const { value, done } = await (pending ?? reader.read());
+      pending = undefined;
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  return { body, complete: false };
+}
+
+function concat(chunks: Uint8Array[], size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
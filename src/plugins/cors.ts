@@ -4,6 +4,7 @@
  */
 
 import type { PluginFactory } from "../middleware/types";
+import { mergeHeaders } from "../core/headers";
 
 export interface CorsOptions {
   /** Allowed origins */
@@ -67,7 +68,10 @@ export const cors: PluginFactory<CorsOptions> = (options = {}) => {
       // Handle preflight
       if (c.method === "OPTIONS") {
         c.set.headers["Access-Control-Max-Age"] = String(config.maxAge);
-        return new Response(null, { status: 204, headers: c.set.headers });
+        return new Response(null, {
+          status: 204,
+          headers: mergeHeaders(c.set.headers),
+        });
       }
 
       await next();
@@ -3,3 +3,18 @@
  */
 
 export { cors, type CorsOptions } from "./cors";
+export { openapiDocs, type OpenAPIDocsOptions } from "./openapi";
+export { serveStatic, type ServeStaticOptions } from "./static";
+export { compress, type CompressOptions, type CompressionEncoding } from "./compress";
+export { session } from "./session";
+export { jwt, type JwtOptions } from "./jwt";
+export { rateLimit } from "./rate-limit";
+export { bodyLimit } from "./body-limit";
+export {
+  secureHeaders,
+  secureHeadersOverride,
+  type SecureHeadersOptions,
+  type CspOptions,
+  type CspDirectives,
+  type HstsOptions,
+} from "./secure-headers";
@@ -0,0 +1,73 @@
+/**
+ * Kyrin Framework - JWT Plugin
+ * Bearer-token authentication
+ */
+
+import type { KyrinPlugin } from "../middleware/types";
+import { UnauthorizedError } from "../errors/http-error";
+import { JwtError, verify } from "../jwt/jwt";
+import type { JwtClaims, JwtVerifyOptions } from "../jwt/types";
+
+export interface JwtOptions extends JwtVerifyOptions {
+  /** Cookie holding the token when there is no Authorization header */
+  cookie?: string;
+  /** `realm` of the WWW-Authenticate challenge */
+  realm?: string;
+}
+
+/**
+ * JWT Plugin
+ * Verifies `Authorization: Bearer <token>` and adds the claims as
+ * `c.claims`; missing or invalid tokens get a 401 with `WWW-Authenticate`
+ *
+ * @example
+ * const app = new Kyrin()
+ *   .use(jwt<{ role: string }>({ secret: Bun.env.JWT_SECRET! }))
+ *   .get("/me", (c) => ({ id: c.claims.sub, role: c.claims.role }));
+ *
+ * // Only for some routes
+ * app.group("/admin", (g) =>
+ *   g.use(jwt({ publicKey: pem, issuer: "auth.example.com" })).get(...)
+ * );
+ */
+export function jwt<Claims extends object = {}>(
+  options: JwtOptions
+): KyrinPlugin<{ claims: Claims & JwtClaims }> {
+  const { cookie, realm, ...verifyOptions } = options;
+  if (!verifyOptions.secret && !verifyOptions.publicKey) {
+    throw new Error("jwt() needs a secret or a publicKey");
+  }
+
+  const challenge = (error?: JwtError) => {
+    const params = [
+      realm !== undefined && `realm="${realm}"`,
+      error && 'error="invalid_token"',
+      error && `error_description="${error.message}"`,
+    ].filter(Boolean);
+    return params.length ? `Bearer ${params.join(", ")}` : "Bearer";
+  };
+
+  return {
+    name: "jwt",
+    onRequest: async (c) => {
+      const authorization = c.header("Authorization");
+      const match = authorization && /^Bearer +(\S+)$/i.exec(authorization);
+      const token = match ? match[1] : cookie && c.cookie(cookie);
+      if (!token) {
+        throw new UnauthorizedError("Missing bearer token", {
+          headers: { "WWW-Authenticate": challenge() },
+        });
+      }
+
+      try {
+        c.extend({ claims: await verify<Claims>(token, verifyOptions) });
+      } catch (error) {
+        if (!(error instanceof JwtError)) throw error;
+        throw new UnauthorizedError(error.message, {
+          headers: { "WWW-Authenticate": challenge(error) },
+          cause: error,
+        });
+      }
+    },
+  };
+}
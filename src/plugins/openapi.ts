@@ -0,0 +1,69 @@
+/**
+ * Kyrin Framework - OpenAPI Docs Plugin
+ * Serves the OpenAPI document and a Swagger UI page
+ */
+
+import type { PluginFactory } from "../middleware/types";
+import type { OpenAPIDocument, OpenAPIOptions } from "../openapi/types";
+
+export interface OpenAPIDocsOptions extends OpenAPIOptions {
+  /** Path of the JSON document (default: "/openapi.json") */
+  path?: string;
+  /** Path of the docs page, `false` to disable (default: "/docs") */
+  docsPath?: string | false;
+}
+
+/**
+ * OpenAPI Docs Plugin
+ * The document is generated on first request, after all routes are registered
+ *
+ * @example
+ * app.use(openapiDocs({ info: { title: "My API", version: "1.0.0" } }));
+ * // GET /openapi.json, GET /docs
+ */
+export const openapiDocs: PluginFactory<OpenAPIDocsOptions> = (
+  options = {}
+) => {
+  const { path = "/openapi.json", docsPath = "/docs", ...document } = options;
+  const hidden = { detail: { hide: true } };
+
+  return {
+    name: "openapi-docs",
+    setup: (app) => {
+      let cached: OpenAPIDocument | undefined;
+      app.get(path, hidden, (c) => c.json((cached ??= app.openapi(document))));
+
+      if (docsPath !== false) {
+        const html = docsPage(document.info?.title ?? "API Docs", path);
+        app.get(docsPath, hidden, (c) => c.html(html));
+      }
+    },
+  };
+};
+
+function docsPage(title: string, specUrl: string): string {
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(title)}</title>
+    <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/swagger-ui-dist@5/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="https://cdn.jsdelivr.net/npm/swagger-ui-dist@5/swagger-ui-bundle.js"></script>
+    <script>
+      SwaggerUIBundle({ url: ${JSON.stringify(specUrl)}, dom_id: "#swagger-ui" });
+    </script>
+  </body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
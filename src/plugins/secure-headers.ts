@@ -0,0 +1,311 @@
+/**
+ * Kyrin Framework - Secure Headers Plugin
+ * HSTS, framing, referrer, permissions, cross-origin and CSP headers
+ */
+
+import type { Context } from "../context/context";
+import type { KyrinPlugin, MiddlewareHandler } from "../middleware/types";
+
+export interface HstsOptions {
+  /** Seconds browsers remember to use HTTPS (default: 1 year) */
+  maxAge?: number;
+  /** Also cover subdomains (default: true) */
+  includeSubDomains?: boolean;
+  /** Ask to be added to browser preload lists (default: false) */
+  preload?: boolean;
+}
+
+/**
+ * CSP directives in camelCase (`scriptSrc` → `script-src`)
+ * Use `"'nonce'"` as a source to insert the per-request nonce;
+ * `true` sends a directive without values, `false` leaves it out
+ */
+export interface CspDirectives {
+  defaultSrc?: string[] | false;
+  scriptSrc?: string[] | false;
+  styleSrc?: string[] | false;
+  imgSrc?: string[] | false;
+  connectSrc?: string[] | false;
+  fontSrc?: string[] | false;
+  objectSrc?: string[] | false;
+  mediaSrc?: string[] | false;
+  frameSrc?: string[] | false;
+  workerSrc?: string[] | false;
+  baseUri?: string[] | false;
+  formAction?: string[] | false;
+  frameAncestors?: string[] | false;
+  reportTo?: string[] | false;
+  upgradeInsecureRequests?: boolean;
+  [directive: string]: string[] | boolean | undefined;
+}
+
+export interface CspOptions {
+  directives: CspDirectives;
+  /** Send `Content-Security-Policy-Report-Only` instead (default: false) */
+  reportOnly?: boolean;
+}
+
+type ReferrerPolicyValue =
+  | "no-referrer"
+  | "no-referrer-when-downgrade"
+  | "origin"
+  | "origin-when-cross-origin"
+  | "same-origin"
+  | "strict-origin"
+  | "strict-origin-when-cross-origin"
+  | "unsafe-url";
+
+/** Each header can be turned off with `false` */
+export interface SecureHeadersOptions {
+  /** Strict-Transport-Security (default: 1 year, includeSubDomains) */
+  strictTransportSecurity?: HstsOptions | false;
+  /** X-Content-Type-Options: nosniff (default: true) */
+  xContentTypeOptions?: boolean;
+  /** X-Frame-Options (default: "SAMEORIGIN") */
+  xFrameOptions?: "DENY" | "SAMEORIGIN" | false;
+  /** Referrer-Policy (default: "no-referrer") */
+  referrerPolicy?: ReferrerPolicyValue | ReferrerPolicyValue[] | false;
+  /**
+   * Permissions-Policy: feature → allowed origins, `[]` to disable
+   * (`"self"` and `"*"` as is, other origins are quoted)
+   * (default: camera, microphone and geolocation disabled)
+   */
+  permissionsPolicy?: Record<string, string[]> | false;
+  /** Cross-Origin-Opener-Policy (default: "same-origin") */
+  crossOriginOpenerPolicy?:
+    | "same-origin"
+    | "same-origin-allow-popups"
+    | "unsafe-none"
+    | false;
+  /** Cross-Origin-Resource-Policy (default: "same-origin") */
+  crossOriginResourcePolicy?:
+    | "same-origin"
+    | "same-site"
+    | "cross-origin"
+    | false;
+  /** Cross-Origin-Embedder-Policy (default: off) */
+  crossOriginEmbedderPolicy?:
+    | "require-corp"
+    | "credentialless"
+    | "unsafe-none"
+    | false;
+  /** Content-Security-Policy (default: off) */
+  contentSecurityPolicy?: CspOptions | false;
+}
+
+const DEFAULTS: SecureHeadersOptions = {
+  strictTransportSecurity: { maxAge: 31536000, includeSubDomains: true },
+  xContentTypeOptions: true,
+  xFrameOptions: "SAMEORIGIN",
+  referrerPolicy: "no-referrer",
+  permissionsPolicy: { camera: [], microphone: [], geolocation: [] },
+  crossOriginOpenerPolicy: "same-origin",
+  crossOriginResourcePolicy: "same-origin",
+  crossOriginEmbedderPolicy: false,
+  contentSecurityPolicy: false,
+};
+
+/** Nonce placeholder in CSP sources */
+const NONCE = "'nonce'";
+
+/** Per-request overrides (keyed by the request, shared with mounted apps) */
+const overrides = new WeakMap<Request, SecureHeadersOptions>();
+
+/**
+ * Secure Headers Plugin
+ * Adds the headers to every response (errors and 404s included) unless the
+ * handler already set them, and a per-request `c.nonce` for CSP
+ *
+ * @example
+ * const app = new Kyrin()
+ *   .use(secureHeaders({
+ *     contentSecurityPolicy: {
+ *       directives: {
+ *         defaultSrc: ["'self'"],
+ *         scriptSrc: ["'self'", "'nonce'"],
+ *         objectSrc: ["'none'"],
+ *       },
+ *     },
+ *   }))
+ *   .get("/", (c) => c.html(`<script nonce="${c.nonce}">boot()</script>`));
+ */
+export function secureHeaders(
+  options: SecureHeadersOptions = {}
+): KyrinPlugin<{ nonce: string }> {
+  const config = mergeOptions(DEFAULTS, options);
+  const headers = buildHeaders(config);
+
+  return {
+    name: "secure-headers",
+    onRequest: (c) => {
+      c.extend({ nonce: createNonce() });
+    },
+    onResponse: (c, response) => {
+      // WebSocket upgrades (101) are handed to Bun as they are
+      if (response.status === 101) return response;
+
+      const override = overrides.get(c.req);
+      const values = override
+        ? buildHeaders(mergeOptions(config, override))
+        : headers;
+      // No nonce yet when an earlier onRequest hook answered the request
+      let { nonce } = c as Context & { nonce?: string };
+      if (nonce === undefined) {
+        nonce = createNonce();
+        c.extend({ nonce });
+      }
+
+      const result = new Headers(response.headers);
+      for (const [name, value] of Object.entries(values)) {
+        if (result.has(name)) continue;
+        result.set(name, value.replaceAll(NONCE, `'nonce-${nonce}'`));
+      }
+      return new Response(response.body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: result,
+      });
+    },
+  };
+}
+
+/**
+ * Change secure headers for a route or group
+ * Options are merged over the plugin's; CSP directives one by one
+ *
+ * @example
+ * // Allow one page to be embedded by a partner site
+ * app.get(
+ *   "/widget",
+ *   secureHeadersOverride({
+ *     xFrameOptions: false,
+ *     contentSecurityPolicy: {
+ *       directives: { frameAncestors: ["https://partner.example"] },
+ *     },
+ *   }),
+ *   widget
+ * );
+ */
+export function secureHeadersOverride(
+  options: SecureHeadersOptions
+): MiddlewareHandler {
+  // Report invalid values at startup rather than per request
+  buildHeaders(options);
+
+  return (c, next) => {
+    const current = overrides.get(c.req);
+    overrides.set(c.req, current ? mergeOptions(current, options) : options);
+    return next();
+  };
+}
+
+// ==================== Private Helpers ====================
+
+function mergeOptions(
+  base: SecureHeadersOptions,
+  override: SecureHeadersOptions
+): SecureHeadersOptions {
+  const merged = { ...base, ...override };
+  const baseCsp = base.contentSecurityPolicy;
+  const overrideCsp = override.contentSecurityPolicy;
+  if (baseCsp && overrideCsp) {
+    merged.contentSecurityPolicy = {
+      ...baseCsp,
+      ...overrideCsp,
+      directives: { ...baseCsp.directives, ...overrideCsp.directives },
+    };
+  }
+  return merged;
+}
+
+function buildHeaders(options: SecureHeadersOptions): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  const hsts = options.strictTransportSecurity;
+  if (hsts) {
+    const { maxAge = 31536000, includeSubDomains = true, preload } = hsts;
+    headers["Strict-Transport-Security"] =
+      `max-age=${maxAge}` +
+      (includeSubDomains ? "; includeSubDomains" : "") +
+      (preload ? "; preload" : "");
+  }
+  if (options.xContentTypeOptions) {
+    headers["X-Content-Type-Options"] = "nosniff";
+  }
+  if (options.xFrameOptions) {
+    headers["X-Frame-Options"] = options.xFrameOptions;
+  }
+  if (options.referrerPolicy) {
+    headers["Referrer-Policy"] = [options.referrerPolicy].flat().join(", ");
+  }
+  if (options.permissionsPolicy) {
+    headers["Permissions-Policy"] = permissionsPolicy(
+      options.permissionsPolicy
+    );
+  }
+  if (options.crossOriginOpenerPolicy) {
+    headers["Cross-Origin-Opener-Policy"] = options.crossOriginOpenerPolicy;
+  }
+  if (options.crossOriginResourcePolicy) {
+    headers["Cross-Origin-Resource-Policy"] = options.crossOriginResourcePolicy;
+  }
+  if (options.crossOriginEmbedderPolicy) {
+    headers["Cross-Origin-Embedder-Policy"] = options.crossOriginEmbedderPolicy;
+  }
+
+  const csp = options.contentSecurityPolicy;
+  if (csp) {
+    const name = csp.reportOnly
+      ? "Content-Security-Policy-Report-Only"
+      : "Content-Security-Policy";
+    headers[name] = contentSecurityPolicy(csp.directives);
+  }
+  return headers;
+}
+
+/** { scriptSrc: ["'self'"], sandbox: true } → "script-src 'self'; sandbox" */
+function contentSecurityPolicy(directives: CspDirectives): string {
+  const parts: string[] = [];
+  for (const [key, value] of Object.entries(directives)) {
+    if (value === undefined || value === false) continue;
+    const name = kebabCase(key);
+    if (value === true) {
+      parts.push(name);
+      continue;
+    }
+    for (const source of value) {
+      if (/[;,\r\n]/.test(source)) {
+        throw new Error(`Invalid CSP source "${source}" in ${name}`);
+      }
+    }
+    parts.push([name, ...value].join(" "));
+  }
+  return parts.join("; ");
+}
+
+/** { camera: [], geolocation: ["self"] } → "camera=(), geolocation=(self)" */
+function permissionsPolicy(features: Record<string, string[]>): string {
+  return Object.entries(features)
+    .map(([feature, origins]) => {
+      const allowlist = origins.map((origin) => {
+        if (origin === "self" || origin === "*") return origin;
+        if (/["\r\n]/.test(origin)) {
+          throw new Error(`Invalid Permissions-Policy origin "${origin}"`);
+        }
+        return `"${origin}"`;
+      });
+      return `${kebabCase(feature)}=(${allowlist.join(" ")})`;
+    })
+    .join(", ");
+}
+
+function kebabCase(name: string): string {
+  return name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+}
+
+/** 128-bit random nonce, base64 */
+function createNonce(): string {
+  return Buffer.from(crypto.getRandomValues(new Uint8Array(16))).toString(
+    "base64"
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Kyrin Framework - Session Plugin
+ * Server-side sessions identified by a cookie
+ */
+
+import type { Context } from "../context/context";
+import { serializeCookie, type CookieOptions } from "../context/cookies";
+import type { KyrinPlugin } from "../middleware/types";
+import { Session } from "../session/session";
+import { MemorySessionStore } from "../session/stores/memory";
+import type { SessionOptions, SessionStore } from "../session/types";
+
+/**
+ * Session Plugin
+ * Adds a typed `c.session`; new sessions are only stored (and the cookie
+ * sent) once something is set
+ *
+ * @example
+ * const app = new Kyrin()
+ *   .use(session<{ userId: number }>({ store: new SQLiteSessionStore(db) }))
+ *   .post("/login", (c) => {
+ *     c.session.regenerate();
+ *     c.session.set("userId", 1);
+ *   })
+ *   .get("/me", (c) => ({ userId: c.session.get("userId") }))
+ *   .post("/logout", (c) => c.session.destroy());
+ */
+export function session<Data extends object = Record<string, unknown>>(
+  options: SessionOptions = {}
+): KyrinPlugin<{ session: Session<Data> }> {
+  const store: SessionStore = options.store ?? new MemorySessionStore();
+  const { cookieName = "sid", maxAge = 86400, rolling = true } = options;
+  const cookie: CookieOptions = {
+    path: "/",
+    httpOnly: true,
+    sameSite: "Lax",
+    ...options.cookie,
+  };
+
+  return {
+    name: "session",
+    onRequest: async (c) => {
+      const id = c.cookie(cookieName);
+      const record = id ? await store.get(id) : undefined;
+      const existing = id && record ? { id, record } : undefined;
+      c.extend({ session: new Session<Data>(store, maxAge * 1000, existing) });
+    },
+    onResponse: async (c, response) => {
+      const current = (c as Context & { session?: Session<Data> }).session;
+      if (!current) return;
+
+      if (rolling && !current.isNew) current.touch();
+      await current.save();
+
+      const sent = c.cookie(cookieName);
+      let header: string | undefined;
+      if (current.isDestroyed) {
+        if (sent !== undefined) {
+          header = serializeCookie(cookieName, "", {
+            ...cookie,
+            maxAge: 0,
+            expires: new Date(0),
+          });
+        }
+      } else if (!current.isNew && (rolling || current.id !== sent)) {
+        header = serializeCookie(cookieName, current.id, { ...cookie, maxAge });
+      }
+      if (!header) return;
+
+      const headers = new Headers(response.headers);
+      headers.append("Set-Cookie", header);
+      return new Response(response.body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+      });
+    },
+    onStop: () => store.close?.(),
+  };
+}
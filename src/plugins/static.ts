@@ -0,0 +1,296 @@
+/**
+ * Kyrin Framework - Static Files Plugin
+ * Serves files from a directory with caching, ranges and precompression
+ */
+
+import { stat } from "node:fs/promises";
+import { resolve, sep } from "node:path";
+import type { Context } from "../context/context";
+import type { PluginFactory } from "../middleware/types";
+import { mergeHeaders, type HeaderValues } from "../core/headers";
+import { BadRequestError } from "../errors/http-error";
+
+export interface ServeStaticOptions {
+  /** Directory to serve (default: "public") */
+  root?: string;
+  /** URL prefix (default: "/") */
+  prefix?: string;
+  /** File served for directories, `false` to disable (default: "index.html") */
+  index?: string | false;
+  /**
+   * File served for unmatched page loads (GETs accepting HTML) under the
+   * prefix, relative to root (SPA: "index.html")
+   */
+  fallback?: string;
+  /** Serve `.br` / `.gz` siblings when accepted (default: true) */
+  precompressed?: boolean;
+  /** Cache-Control header for served files */
+  cacheControl?: string;
+}
+
+interface StaticFile {
+  path: string;
+  size: number;
+  mtime: Date;
+}
+
+/** Sibling extensions by Content-Encoding, in preference order */
+const ENCODINGS = [
+  { encoding: "br", extension: ".br" },
+  { encoding: "gzip", extension: ".gz" },
+];
+
+/**
+ * Static Files Plugin
+ * Serves GET/HEAD requests under the prefix that no route matched
+ * (an `app.fallback()`), so routes and their 404/405s keep priority
+ *
+ * - Paths outside root and dotfiles are never served
+ * - Strong ETag and Last-Modified, with 304 for conditional requests
+ * - Single byte ranges (`Range: bytes=0-99`) with 206 / 416
+ *
+ * @example
+ * app.use(serveStatic({ root: "./dist", fallback: "index.html" }));
+ * app.use(serveStatic({ root: "./assets", prefix: "/static" }));
+ */
+export const serveStatic: PluginFactory<ServeStaticOptions> = (
+  options = {}
+) => {
+  const {
+    root = "public",
+    prefix = "/",
+    index = "index.html",
+    fallback,
+    precompressed = true,
+    cacheControl,
+  } = options;
+  const rootDir = resolve(root);
+  const base = prefix.endsWith("/") ? prefix.slice(0, -1) : prefix;
+
+  const handler = async (c: Context) => {
+    if (c.method !== "GET" && c.method !== "HEAD") return;
+    const unmatched = `/${c.params.wildcard ?? ""}`;
+    if (unmatched !== base && !unmatched.startsWith(`${base}/`)) return;
+    const path = unmatched.slice(base.length);
+
+    const file =
+      (await findFile(rootDir, path, index)) ??
+      (fallback !== undefined && acceptsHtml(c)
+        ? await findFile(rootDir, fallback, false)
+        : undefined);
+    return file && sendFile(c, file, { precompressed, cacheControl });
+  };
+
+  return {
+    name: "serve-static",
+    setup: (app) => {
+      app.fallback(handler);
+    },
+  };
+};
+
+// ==================== File Lookup ====================
+
+/** Resolve a request path inside root (directories use the index file) */
+async function findFile(
+  rootDir: string,
+  requestPath: string,
+  index: string | false
+): Promise<StaticFile | undefined> {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(requestPath);
+  } catch {
+    throw new BadRequestError("Malformed path");
+  }
+  if (decoded.includes("\0")) {
+    throw new BadRequestError("Malformed path");
+  }
+
+  const segments = decoded.split(/[/\\]/).filter(Boolean);
+  if (segments.some((segment) => segment.startsWith("."))) return undefined;
+
+  const path = resolve(rootDir, ...segments);
+  if (path !== rootDir && !path.startsWith(rootDir + sep)) return undefined;
+
+  const stats = await stat(path).catch(() => undefined);
+  if (stats?.isFile()) {
+    return { path, size: stats.size, mtime: stats.mtime };
+  }
+  if (stats?.isDirectory() && index) {
+    return findFile(path, index, false);
+  }
+  return undefined;
+}
+
+/** Precompressed sibling of a file, if the client accepts its encoding */
+async function findEncoded(
+  file: StaticFile,
+  acceptEncoding: string
+): Promise<(StaticFile & { encoding: string }) | undefined> {
+  const accepted = parseAcceptEncoding(acceptEncoding);
+  for (const { encoding, extension } of ENCODINGS) {
+    if (!accepted.has(encoding)) continue;
+    const stats = await stat(file.path + extension).catch(() => undefined);
+    if (stats?.isFile()) {
+      return {
+        path: file.path + extension,
+        size: stats.size,
+        mtime: stats.mtime,
+        encoding,
+      };
+    }
+  }
+  return undefined;
+}
+
+// ==================== Response ====================
+
+async function sendFile(
+  c: Context,
+  file: StaticFile,
+  options: Pick<ServeStaticOptions, "precompressed" | "cacheControl">
+): Promise<Response> {
+  const rangeHeader = c.header("Range");
+
+  // Ranges always refer to the identity (uncompressed) bytes
+  const encoded =
+    options.precompressed && !rangeHeader
+      ? await findEncoded(file, c.header("Accept-Encoding") ?? "")
+      : undefined;
+  const served = encoded ?? file;
+
+  const etag = entityTag(served);
+  const headers: HeaderValues = {
+    "Content-Type": Bun.file(file.path).type,
+    ETag: etag,
+    "Last-Modified": served.mtime.toUTCString(),
+    "Accept-Ranges": "bytes",
+    ...(options.precompressed && { Vary: "Accept-Encoding" }),
+    ...(encoded && { "Content-Encoding": encoded.encoding }),
+    ...(options.cacheControl && { "Cache-Control": options.cacheControl }),
+    ...c.set.headers,
+  };
+
+  if (isNotModified(c, etag, served.mtime)) {
+    delete headers["Content-Type"];
+    return new Response(null, { status: 304, headers: mergeHeaders(headers) });
+  }
+
+  const body = Bun.file(served.path);
+  const range =
+    rangeHeader && matchesIfRange(c.header("If-Range"), etag, served.mtime)
+      ? parseRange(rangeHeader, served.size)
+      : undefined;
+
+  if (range === null) {
+    return new Response(null, {
+      status: 416,
+      headers: mergeHeaders(headers, {
+        "Content-Range": `bytes */${served.size}`,
+      }),
+    });
+  }
+  if (range) {
+    const length = range.end - range.start + 1;
+    headers["Content-Range"] =
+      `bytes ${range.start}-${range.end}/${served.size}`;
+    headers["Content-Length"] = String(length);
+    return new Response(
+      c.method === "HEAD" ? null : body.slice(range.start, range.end + 1),
+      { status: 206, headers: mergeHeaders(headers) }
+    );
+  }
+
+  headers["Content-Length"] = String(served.size);
+  return new Response(c.method === "HEAD" ? null : body, {
+    status: 200,
+    headers: mergeHeaders(headers),
+  });
+}
+
+// ==================== Conditional Requests ====================
+
+/** `If-None-Match` wins over `If-Modified-Since` (RFC 9110 §13.2.2) */
+function isNotModified(c: Context, etag: string, mtime: Date): boolean {
+  const ifNoneMatch = c.header("If-None-Match");
+  if (ifNoneMatch) {
+    return ifNoneMatch
+      .split(",")
+      .map((tag) => tag.trim().replace(/^W\//, ""))
+      .some((tag) => tag === "*" || tag === etag);
+  }
+
+  const ifModifiedSince = c.header("If-Modified-Since");
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    return !Number.isNaN(since) && toSeconds(mtime) <= since;
+  }
+  return false;
+}
+
+/** A Range only applies if `If-Range` (when sent) still matches */
+function matchesIfRange(
+  ifRange: string | null,
+  etag: string,
+  mtime: Date
+): boolean {
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"')) return ifRange === etag;
+  return Date.parse(ifRange) === toSeconds(mtime);
+}
+
+/** Strong ETag from modification time and size (same scheme as nginx) */
+function entityTag(file: StaticFile): string {
+  return `"${file.mtime.getTime().toString(16)}-${file.size.toString(16)}"`;
+}
+
+/** HTTP dates have second precision */
+function toSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Parse a single byte range
+ * @returns the range, `undefined` to ignore the header, `null` if unsatisfiable
+ */
+function parseRange(
+  header: string,
+  size: number
+): { start: number; end: number } | null | undefined {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return undefined;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: last N bytes
+    const suffix = Number(match[2]);
+    if (suffix === 0) return null;
+    start = Math.max(size - suffix, 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) return null;
+  return { start, end };
+}
+
+/** Browser page loads ask for HTML; API clients and asset requests don't */
+function acceptsHtml(c: Context): boolean {
+  return c.method === "GET" && (c.header("Accept") ?? "").includes("text/html");
+}
+
+function parseAcceptEncoding(header: string): Set<string> {
+  const accepted = new Set<string>();
+  for (const part of header.split(",")) {
+    const [name, ...params] = part.trim().toLowerCase().split(";");
+    const q = params
+      .map((param) => param.trim())
+      .find((param) => param.startsWith("q="));
+    if (name && (!q || Number(q.slice(2)) > 0)) accepted.add(name);
+  }
+  return accepted;
+}
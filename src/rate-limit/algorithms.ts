@@ -0,0 +1,123 @@
+/**
+ * Kyrin Framework - Rate Limit Algorithms
+ * Pure state transitions: (state, now) → (state, result)
+ */
+
+import type {
+  RateLimitAlgorithm,
+  RateLimitResult,
+  RateLimitState,
+} from "./types";
+
+interface Algorithm {
+  /** How long a state stays relevant after its last update */
+  ttl(window: number): number;
+  consume(
+    state: RateLimitState | undefined,
+    now: number,
+    limit: number,
+    window: number
+  ): { state: RateLimitState; result: RateLimitResult };
+}
+
+/**
+ * Fixed window: at most `limit` requests per window, counted from the
+ * first request of the window
+ */
+const fixedWindow: Algorithm = {
+  ttl: (window) => window,
+  consume(state, now, limit, window) {
+    let { start = now, count = 0 } = state ?? {};
+    if (now >= start + window) {
+      start = now;
+      count = 0;
+    }
+    const allowed = count < limit;
+    if (allowed) count++;
+
+    const reset = start + window - now;
+    return {
+      state: { start, count },
+      result: {
+        allowed,
+        limit,
+        remaining: limit - count,
+        reset,
+        retryAfter: allowed ? 0 : reset,
+      },
+    };
+  },
+};
+
+/**
+ * Sliding window (weighted counter): the previous window's count is
+ * weighted by how much of it still overlaps the last `window` milliseconds
+ */
+const slidingWindow: Algorithm = {
+  ttl: (window) => window * 2,
+  consume(state, now, limit, window) {
+    const aligned = now - (now % window);
+    let { start = aligned, count = 0, previous = 0 } = state ?? {};
+    if (now >= start + window) {
+      previous = now >= start + window * 2 ? 0 : count;
+      count = 0;
+      start = aligned;
+    }
+
+    const weight = 1 - (now - start) / window;
+    const estimate = previous * weight + count;
+    const allowed = estimate + 1 <= limit;
+    if (allowed) count++;
+
+    let retryAfter = 0;
+    if (!allowed) {
+      // When the estimate drops enough for one more request
+      retryAfter =
+        count < limit
+          ? start + window * (1 - (limit - 1 - count) / previous) - now
+          : start + window * (2 - (limit - 1) / count) - now;
+    }
+    return {
+      state: { start, count, previous },
+      result: {
+        allowed,
+        limit,
+        remaining: Math.max(0, Math.floor(limit - previous * weight - count)),
+        reset: start + window - now,
+        retryAfter: Math.max(0, Math.ceil(retryAfter)),
+      },
+    };
+  },
+};
+
+/**
+ * Token bucket: holds up to `limit` tokens, refilled at `limit` per window
+ * Allows bursts up to the capacity, then a steady rate
+ */
+const tokenBucket: Algorithm = {
+  ttl: (window) => window,
+  consume(state, now, limit, window) {
+    const rate = limit / window;
+    const { tokens: stored = limit, time = now } = state ?? {};
+    let tokens = Math.min(limit, stored + (now - time) * rate);
+    const allowed = tokens >= 1;
+    if (allowed) tokens -= 1;
+
+    return {
+      state: { tokens, time: now },
+      result: {
+        allowed,
+        limit,
+        remaining: Math.floor(tokens),
+        reset: Math.ceil((limit - tokens) / rate),
+        retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / rate),
+      },
+    };
+  },
+};
+
+export const ALGORITHMS: Record<RateLimitAlgorithm, Algorithm> = {
+  "fixed-window": fixedWindow,
+  "sliding-window": slidingWindow,
+  "token-bucket": tokenBucket,
+};
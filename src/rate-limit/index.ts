@@ -0,0 +1,11 @@
+/**
+ * Kyrin Framework - Rate Limit Module
+ * Request counters and their stores
+ */
+
+export * from "./types";
+export { MemoryRateLimitStore } from "./stores/memory";
+export {
+  SQLiteRateLimitStore,
+  type SQLiteRateLimitStoreOptions,
+} from "./stores/sqlite";
@@ -0,0 +1,58 @@
+/**
+ * Kyrin Framework - Memory Rate Limit Store
+ * Keeps counters in the process
+ */
+
+import type { RateLimitState, RateLimitStore } from "../types";
+
+/**
+ * In-memory rate limit store
+ * Counters are lost on restart and not shared between processes
+ *
+ * @example
+ * app.use(rateLimit({ store: new MemoryRateLimitStore() }));
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<
+    string,
+    { state: RateLimitState; expiresAt: number }
+  >();
+  private timer?: ReturnType<typeof setInterval>;
+
+  /** @param pruneInterval - ms between cleanups, 0 disables (default: 1 min) */
+  constructor(pruneInterval = 60 * 1000) {
+    if (pruneInterval > 0) {
+      this.timer = setInterval(() => this.prune(), pruneInterval);
+      this.timer.unref?.();
+    }
+  }
+
+  update(
+    key: string,
+    fn: (state: RateLimitState | undefined) => RateLimitState,
+    ttl: number
+  ): void {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+    const current = entry && entry.expiresAt > now ? entry.state : undefined;
+    this.entries.set(key, { state: fn(current), expiresAt: now + ttl });
+  }
+
+  reset(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /** Remove expired counters */
+  prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+
+  /** Stop the cleanup timer */
+  close(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
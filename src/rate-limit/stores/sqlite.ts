@@ -0,0 +1,92 @@
+/**
+ * Kyrin Framework - SQLite Rate Limit Store
+ * Persists counters in a table through Kyrin's Database
+ */
+
+import type { DatabaseClient } from "../../db/types";
+import type { RateLimitState, RateLimitStore } from "../types";
+
+export interface SQLiteRateLimitStoreOptions {
+  /** Table name, created if missing (default: "rate_limits") */
+  table?: string;
+  /** Milliseconds between cleanups, 0 to disable (default: 10 min) */
+  pruneInterval?: number;
+}
+
+/**
+ * SQLite rate limit store
+ * Limits survive restarts and are shared by processes using the same file
+ *
+ * @example
+ * const db = database("sqlite:./data.db");
+ * app.use(rateLimit({ store: new SQLiteRateLimitStore(db) }));
+ */
+export class SQLiteRateLimitStore implements RateLimitStore {
+  private table: string;
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    private readonly db: DatabaseClient,
+    options: SQLiteRateLimitStoreOptions = {}
+  ) {
+    const { table = "rate_limits", pruneInterval = 10 * 60 * 1000 } = options;
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid rate limit table name "${table}"`);
+    }
+    this.table = table;
+
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, ` +
+        "state TEXT NOT NULL, expires_at INTEGER NOT NULL)"
+    );
+    db.exec(
+      `CREATE INDEX IF NOT EXISTS ${table}_expires_at ON ${table} (expires_at)`
+    );
+
+    if (pruneInterval > 0) {
+      this.timer = setInterval(() => this.prune(), pruneInterval);
+      this.timer.unref?.();
+    }
+  }
+
+  update(
+    key: string,
+    fn: (state: RateLimitState | undefined) => RateLimitState,
+    ttl: number
+  ): void {
+    // Read and write in one transaction so concurrent processes don't race
+    this.db.transaction(() => {
+      const now = Date.now();
+      const row = this.db.queryOne<{ state: string }>(
+        `SELECT state FROM ${this.table} WHERE key = ? AND expires_at > ?`,
+        [key, now]
+      );
+      const state = fn(row ? JSON.parse(row.state) : undefined);
+      this.db.run(
+        `INSERT OR REPLACE INTO ${this.table} (key, state, expires_at) ` +
+          "VALUES (?, ?, ?)",
+        [key, JSON.stringify(state), now + ttl]
+      );
+    });
+  }
+
+  reset(key: string): void {
+    this.db.run(`DELETE FROM ${this.table} WHERE key = ?`, [key]);
+  }
+
+  /**
+   * Delete expired rows
+   * @returns number of deleted counters
+   */
+  prune(): number {
+    return this.db.run(`DELETE FROM ${this.table} WHERE expires_at <= ?`, [
+      Date.now(),
+    ]).changes;
+  }
+
+  /** Stop the cleanup timer */
+  close(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Kyrin Framework - Rate Limit Types
+ */
+
+import type { Context } from "../context/context";
+import type {
+  KyrinPlugin,
+  MiddlewareHandler,
+  StopHook,
+} from "../middleware/types";
+
+export type RateLimitAlgorithm =
+  | "fixed-window"
+  | "sliding-window"
+  | "token-bucket";
+
+/** Per-key counters of an algorithm (stored as is, e.g. as JSON) */
+export type RateLimitState = Record<string, number>;
+
+/**
+ * Counter persistence
+ * Implement this to share limits between processes (Redis, ...)
+ */
+export interface RateLimitStore {
+  /**
+   * Replace the state of a key with `fn(current)`, atomically
+   * The new state must be kept for at least `ttl` milliseconds
+   */
+  update(
+    key: string,
+    fn: (state: RateLimitState | undefined) => RateLimitState,
+    ttl: number
+  ): void | Promise<void>;
+  /** Forget a key (e.g., after a successful login) */
+  reset(key: string): void | Promise<void>;
+  /** Release timers and connections */
+  close?(): void | Promise<void>;
+}
+
+/** Outcome of one request against a limit */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Milliseconds until the quota is fully available again */
+  reset: number;
+  /** Milliseconds until the next request is allowed (0 when allowed) */
+  retryAfter: number;
+}
+
+/** `rateLimit()` plugin: `app.use()` it, or put `middleware` on a route */
+export type RateLimitPlugin = KyrinPlugin & {
+  middleware: MiddlewareHandler;
+  onStop: StopHook;
+};
+
+export interface RateLimitOptions {
+  /** Requests allowed per window (token bucket: capacity) (default: 100) */
+  limit?: number;
+  /** Window in milliseconds (token bucket: full refill) (default: 60000) */
+  window?: number;
+  /** Default: "fixed-window" */
+  algorithm?: RateLimitAlgorithm;
+  /** Client identifier (default: the client IP) */
+  key?: (c: Context) => string | Promise<string>;
+  /** Where counters are kept (default: in-memory) */
+  store?: RateLimitStore;
+  /**
+   * Namespace in the store, to share one store between limiters
+   * (default: derived from algorithm, limit and window)
+   */
+  name?: string;
+  /** Don't count these requests */
+  skip?: (c: Context) => boolean | Promise<boolean>;
+  /** Send `RateLimit-*` headers on allowed requests too (default: true) */
+  headers?: boolean;
+  /** Detail of the 429 response */
+  message?: string;
+}
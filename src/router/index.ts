@@ -3,5 +3,14 @@
  * HTTP routing with RadixTree for fast lookups
  */
 
-export { Router } from "./router";
+export { Router, parseRouteArgs, HTTP_METHODS } from "./router";
+export type {
+  RouteDefinition,
+  RouteArgs,
+  RouteHandlers,
+  PipelineBuilder,
+  RouteInput,
+} from "./router";
+export type { PathParams, PathParamNames } from "./path-params";
 export { RadixTree } from "./radix-tree";
+export type { TreeMatch } from "./radix-tree";
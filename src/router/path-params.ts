@@ -0,0 +1,31 @@
+/**
+ * Kyrin Framework - Path Param Types
+ * Type-level extraction of params from route strings
+ */
+
+type SegmentParam<S extends string> = S extends `:${infer Name}`
+  ? Name
+  : S extends `*${infer Name}`
+    ? Name extends ""
+      ? "wildcard"
+      : Name
+    : never;
+
+/**
+ * Param names in a route path (`*` is `wildcard`, `*name` is `name`)
+ * @example PathParamNames<"/users/:id/files/*"> → "id" | "wildcard"
+ * @example PathParamNames<"/docs/*slug"> → "slug"
+ */
+export type PathParamNames<P extends string> =
+  P extends `${infer Head}/${infer Rest}`
+    ? SegmentParam<Head> | PathParamNames<Rest>
+    : SegmentParam<P>;
+
+/**
+ * Typed params object for a route path
+ * Falls back to `Record<string, string>` for non-literal paths
+ * @example PathParams<"/users/:id"> → { id: string }
+ */
+export type PathParams<P extends string> = string extends P
+  ? Record<string, string>
+  : { [K in PathParamNames<P>]: string };
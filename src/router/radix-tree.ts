@@ -2,22 +2,25 @@
  * Kyrin Framework - Radix Tree Router
  */
 
-import type { Handler, LookupResult } from "@/core/types";
+import type { Handler } from "@/core/types";
 
-interface RadixNode {
+interface RadixNode<T> {
   path: string;
-  children: Map<string, RadixNode>;
-  handler: Handler | null;
+  children: Map<string, RadixNode<T>>;
+  handler: T | null;
   paramName: string | null;
-  paramChild: RadixNode | null;
-  wildcardChild: RadixNode | null;
+  paramChild: RadixNode<T> | null;
+  wildcardChild: RadixNode<T> | null;
 }
 
+/** ผลลัพธ์การค้นหา: ค่าที่เก็บไว้ + params */
+export type TreeMatch<T> = { handler: T; params: Record<string, string> };
+
 /**
  * สร้าง RadixNode ใหม่
  */
 
-function createNode(path: string = ""): RadixNode {
+function createNode<T>(path: string = ""): RadixNode<T> {
   return {
     path,
     children: new Map(),
@@ -31,11 +34,11 @@ function createNode(path: string = ""): RadixNode {
 /**
  * RadixTree class สำหรับการค้นหา route
  */
-export class RadixTree {
-  private root: RadixNode;
+export class RadixTree<T = Handler> {
+  private root: RadixNode<T>;
 
   constructor() {
-    this.root = createNode();
+    this.root = createNode<T>();
   }
 
   /**
@@ -57,7 +60,7 @@ export class RadixTree {
    * @param path - path ของ route (เช่น /users/:id)
    * @param handler - ฟังก์ชัน handler
    */
-  insert(path: string, handler: Handler): void {
+  insert(path: string, handler: T): void {
     const segments = this.splitPath(path);
     let currentNode = this.root;
 
@@ -65,15 +68,16 @@ export class RadixTree {
       if (segment.startsWith(":")) {
         // Parameter node
         if (!currentNode.paramChild) {
-          const paramNode = createNode();
+          const paramNode = createNode<T>();
           paramNode.paramName = segment.slice(1);
           currentNode.paramChild = paramNode;
         }
         currentNode = currentNode.paramChild;
-      } else if (segment === "*") {
-        // Wildcard node
+      } else if (segment.startsWith("*")) {
+        // Wildcard node: `*` → params.wildcard, `*path` → params.path
         if (!currentNode.wildcardChild) {
-          const wildcardNode = createNode();
+          const wildcardNode = createNode<T>();
+          wildcardNode.paramName = segment.slice(1) || "wildcard";
           currentNode.wildcardChild = wildcardNode;
         }
         currentNode = currentNode.wildcardChild;
@@ -81,7 +85,7 @@ export class RadixTree {
         // Static node
         let child = currentNode.children.get(segment);
         if (!child) {
-          child = createNode(segment);
+          child = createNode<T>(segment);
           currentNode.children.set(segment, child);
         }
         currentNode = child;
@@ -93,32 +97,29 @@ export class RadixTree {
   /**
    * ค้นหา route ใน tree
    * @param path - path ของ request (เช่น /users/123)
-   * @returns LookupResult หรือ null ถ้าไม่พบ
+   * @returns TreeMatch หรือ null ถ้าไม่พบ
    */
 
-  lookup(path: string): LookupResult | null {
+  lookup(path: string): TreeMatch<T> | null {
     const segments = this.splitPath(path);
-    const params = new Map<string, string>();
-    return this.search(this.root, segments, 0, params);
+    return this.search(this.root, segments, 0, {});
   }
   /**
    * ค้นหา recursive ใน tree
    */
   private search(
-    node: RadixNode,
+    node: RadixNode<T>,
     segments: string[],
     index: number,
-    params: Map<string, string>
-  ): LookupResult | null {
+    params: Record<string, string>
+  ): TreeMatch<T> | null {
     if (index === segments.length) {
       if (node.handler) {
-        return { handler: node.handler, params: Object.fromEntries(params) };
+        return { handler: node.handler, params };
       }
       if (node.wildcardChild && node.wildcardChild.handler) {
-        return {
-          handler: node.wildcardChild.handler,
-          params: Object.fromEntries(params),
-        };
+        params[node.wildcardChild.paramName!] = "";
+        return { handler: node.wildcardChild.handler, params };
       }
       return null;
     }
@@ -132,20 +133,17 @@ export class RadixTree {
 
     // Parameter match
     if (node.paramChild) {
-      params.set(node.paramChild.paramName!, segment);
+      params[node.paramChild.paramName!] = segment;
       const result = this.search(node.paramChild, segments, index + 1, params);
       if (result) return result;
-      params.delete(node.paramChild.paramName!);
+      delete params[node.paramChild.paramName!];
     }
 
     // Wildcard match (priority lowest)
     if (node.wildcardChild) {
-      params.set("wildcard", segments.slice(index).join("/"));
+      params[node.wildcardChild.paramName!] = segments.slice(index).join("/");
       if (node.wildcardChild.handler) {
-        return {
-          handler: node.wildcardChild.handler,
-          params: Object.fromEntries(params),
-        };
+        return { handler: node.wildcardChild.handler, params };
       }
     }
 
@@ -3,50 +3,179 @@
  * HTTP routing with RadixTree for O(k) lookups
  */
 
-import type { Handler, LookupResult, HttpMethod } from "../core/types";
+import type {
+  ContextInput,
+  Handler,
+  HandlerResult,
+  LookupResult,
+  HttpMethod,
+  Pipeline,
+} from "../core/types";
+import type { MiddlewareHandler } from "../middleware/types";
+import { withMiddleware } from "../middleware/compose";
+import type { z } from "zod";
+import type { InferSchema, RouteSchema } from "../validator/types";
+import type { PathParams } from "./path-params";
+import { withValidation } from "../validator/validate";
 import { RadixTree } from "./radix-tree";
 
+/** All supported HTTP methods (used by `all()`) */
+export const HTTP_METHODS: HttpMethod[] = [
+  "GET",
+  "POST",
+  "PUT",
+  "DELETE",
+  "PATCH",
+  "OPTIONS",
+  "HEAD",
+];
+
 /** Route definition for grouping */
-interface RouteDefinition {
+export interface RouteDefinition {
   method: HttpMethod;
   path: string;
+  handler: Handler<any>;
+  schema?: RouteSchema;
+  /** Route-level middleware (runs after global middleware) */
+  middleware?: MiddlewareHandler[];
+}
+
+/** Route middleware followed by the handler */
+export type RouteHandlers<
+  I extends ContextInput = {},
+  R extends HandlerResult = HandlerResult,
+  State extends object = {},
+  Decorators extends object = {},
+> = [...MiddlewareHandler[], Handler<I, R, State, Decorators>];
+
+/**
+ * Handler input for a route: schema output, plus params typed from the path
+ * (a params schema takes precedence over the path)
+ */
+export type RouteInput<
+  P extends string,
+  S extends RouteSchema = {},
+> = InferSchema<S> &
+  (S extends { params: z.ZodType } ? {} : { params: PathParams<P> });
+
+/** Arguments accepted after the path: `([schema], ...middleware, handler)` */
+export type RouteArgs =
+  | RouteHandlers<any, any, any, any>
+  | [RouteSchema, ...RouteHandlers<any, any, any, any>];
+
+/** Split route arguments into schema, middleware and handler */
+export function parseRouteArgs(
+  args: RouteArgs
+): Pick<RouteDefinition, "handler" | "schema" | "middleware"> {
+  const schema =
+    typeof args[0] === "object" ? (args[0] as RouteSchema) : undefined;
+  return {
+    schema,
+    middleware: args.slice(schema ? 1 : 0, -1) as MiddlewareHandler[],
+    handler: args[args.length - 1] as Handler<any>,
+  };
+}
+
+/** Registered route: composed handler plus its compiled pipeline */
+interface RouteRecord {
   handler: Handler;
+  pipeline?: Pipeline;
 }
 
+/** Builds a request pipeline from a route handler (and its definition) */
+export type PipelineBuilder = (
+  handler: Handler,
+  route: RouteDefinition
+) => Pipeline;
+
 /**
  * Router class for HTTP method routing
  * Uses RadixTree for fast path matching with static route caching
+ *
+ * `BasePath` types params of the prefix the router is mounted under:
+ * `new Router<"/users/:id">()` gives handlers a typed `c.params.id`
  */
-export class Router {
+export class Router<BasePath extends string = ""> {
   /** RadixTree for each HTTP method */
-  private trees: Map<HttpMethod, RadixTree> = new Map();
+  private trees: Map<HttpMethod, RadixTree<RouteRecord>> = new Map();
 
   /** O(1) cache for static routes */
-  private staticRoutes: Map<HttpMethod, Map<string, Handler>> = new Map();
+  private staticRoutes: Map<HttpMethod, Map<string, RouteRecord>> = new Map();
 
   /** Stored routes for grouping */
   private routes: RouteDefinition[] = [];
 
+  /** Records in registration order, with their routes (for compilation) */
+  private records: { record: RouteRecord; route: RouteDefinition }[] = [];
+
+  /** Pipeline builder, once compile() has been called */
+  private builder?: PipelineBuilder;
+
   // ==================== Route Registration ====================
 
   /**
    * Register a route for any HTTP method
    * @param method - HTTP method (GET, POST, etc.)
    * @param path - Route path (e.g., "/users/:id")
-   * @param handler - Request handler function
+   * @param schema - Optional validation schema (params, query, headers, body)
+   * @param handlers - Route middleware followed by the request handler
+   */
+  on<P extends string>(
+    method: HttpMethod,
+    path: P,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`>>
+  ): this;
+  on<P extends string, S extends RouteSchema>(
+    method: HttpMethod,
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`, S>>
+  ): this;
+  on(method: HttpMethod, path: string, ...args: RouteArgs): this {
+    return this.add({ method, path, ...parseRouteArgs(args) });
+  }
+
+  /**
+   * Register a route definition
+   * Execution: route middleware → validation → handler
    */
-  on(method: HttpMethod, path: string, handler: Handler): this {
-    this.routes.push({ method, path, handler });
+  add(route: RouteDefinition): this {
+    const { method, path, schema, middleware } = route;
+    this.routes.push(route);
+
+    let handler: Handler = schema
+      ? withValidation(schema, route.handler)
+      : route.handler;
+    if (middleware?.length) {
+      handler = withMiddleware(middleware, handler);
+    }
+
+    const record: RouteRecord = {
+      handler,
+      pipeline: this.builder?.(handler, route),
+    };
+    this.records.push({ record, route });
 
     // Cache static routes for O(1) lookup
     if (!path.includes(":") && !path.includes("*")) {
-      this.getStaticRoutes(method).set(path, handler);
+      this.getStaticRoutes(method).set(path, record);
     }
 
-    this.getTree(method).insert(path, handler);
+    this.getTree(method).insert(path, record);
     return this;
   }
 
+  /**
+   * Compile every route into a request pipeline
+   * Routes added later are compiled on registration
+   */
+  compile(builder: PipelineBuilder): void {
+    this.builder = builder;
+    for (const { record, route } of this.records) {
+      record.pipeline = builder(record.handler, route);
+    }
+  }
+
   /**
    * Find matching route for method and path
    * @returns Handler and params if found, null otherwise
@@ -55,12 +184,30 @@ export class Router {
     // Try static cache first (O(1))
     const staticRoute = this.staticRoutes.get(method)?.get(path);
     if (staticRoute) {
-      return { handler: staticRoute, params: {} };
+      const { handler, pipeline } = staticRoute;
+      return { handler, pipeline, params: {} };
     }
 
     // Fall back to tree lookup (O(k))
-    const tree = this.trees.get(method);
-    return tree?.lookup(path) ?? null;
+    const found = this.trees.get(method)?.lookup(path);
+    if (!found) return null;
+    const { handler, pipeline } = found.handler;
+    return { handler, pipeline, params: found.params };
+  }
+
+  /**
+   * Get methods that have a route matching the path
+   * Used to answer 405 Method Not Allowed with an `Allow` header
+   * HEAD is listed wherever GET is (GET routes answer HEAD)
+   */
+  allowedMethods(path: string): HttpMethod[] {
+    const methods = HTTP_METHODS.filter(
+      (method) => this.match(method, path) !== null
+    );
+    if (methods.includes("GET") && !methods.includes("HEAD")) {
+      methods.push("HEAD");
+    }
+    return methods;
   }
 
   /**
@@ -72,63 +219,127 @@ export class Router {
 
   // ==================== HTTP Method Shortcuts ====================
 
-  get(path: string, handler: Handler): this {
-    return this.on("GET", path, handler);
+  get<P extends string>(
+    path: P,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`>>
+  ): this;
+  get<P extends string, S extends RouteSchema>(
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`, S>>
+  ): this;
+  get(path: string, ...args: RouteArgs): this {
+    return this.add({ method: "GET", path, ...parseRouteArgs(args) });
   }
 
-  post(path: string, handler: Handler): this {
-    return this.on("POST", path, handler);
+  post<P extends string>(
+    path: P,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`>>
+  ): this;
+  post<P extends string, S extends RouteSchema>(
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`, S>>
+  ): this;
+  post(path: string, ...args: RouteArgs): this {
+    return this.add({ method: "POST", path, ...parseRouteArgs(args) });
   }
 
-  put(path: string, handler: Handler): this {
-    return this.on("PUT", path, handler);
+  put<P extends string>(
+    path: P,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`>>
+  ): this;
+  put<P extends string, S extends RouteSchema>(
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`, S>>
+  ): this;
+  put(path: string, ...args: RouteArgs): this {
+    return this.add({ method: "PUT", path, ...parseRouteArgs(args) });
   }
 
-  delete(path: string, handler: Handler): this {
-    return this.on("DELETE", path, handler);
+  delete<P extends string>(
+    path: P,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`>>
+  ): this;
+  delete<P extends string, S extends RouteSchema>(
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`, S>>
+  ): this;
+  delete(path: string, ...args: RouteArgs): this {
+    return this.add({ method: "DELETE", path, ...parseRouteArgs(args) });
   }
 
-  patch(path: string, handler: Handler): this {
-    return this.on("PATCH", path, handler);
+  patch<P extends string>(
+    path: P,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`>>
+  ): this;
+  patch<P extends string, S extends RouteSchema>(
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`, S>>
+  ): this;
+  patch(path: string, ...args: RouteArgs): this {
+    return this.add({ method: "PATCH", path, ...parseRouteArgs(args) });
   }
 
-  options(path: string, handler: Handler): this {
-    return this.on("OPTIONS", path, handler);
+  options<P extends string>(
+    path: P,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`>>
+  ): this;
+  options<P extends string, S extends RouteSchema>(
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`, S>>
+  ): this;
+  options(path: string, ...args: RouteArgs): this {
+    return this.add({ method: "OPTIONS", path, ...parseRouteArgs(args) });
   }
 
-  head(path: string, handler: Handler): this {
-    return this.on("HEAD", path, handler);
+  head<P extends string>(
+    path: P,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`>>
+  ): this;
+  head<P extends string, S extends RouteSchema>(
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`, S>>
+  ): this;
+  head(path: string, ...args: RouteArgs): this {
+    return this.add({ method: "HEAD", path, ...parseRouteArgs(args) });
   }
 
   /** Register handler for all HTTP methods */
-  all(path: string, handler: Handler): this {
-    const methods: HttpMethod[] = [
-      "GET",
-      "POST",
-      "PUT",
-      "DELETE",
-      "PATCH",
-      "OPTIONS",
-      "HEAD",
-    ];
-    for (const method of methods) {
-      this.on(method, path, handler);
+  all<P extends string>(
+    path: P,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`>>
+  ): this;
+  all<P extends string, S extends RouteSchema>(
+    path: P,
+    schema: S,
+    ...handlers: RouteHandlers<RouteInput<`${BasePath}${P}`, S>>
+  ): this;
+  all(path: string, ...args: RouteArgs): this {
+    const route = parseRouteArgs(args);
+    for (const method of HTTP_METHODS) {
+      this.add({ method, path, ...route });
     }
     return this;
   }
 
   // ==================== Private Helpers ====================
 
-  private getTree(method: HttpMethod): RadixTree {
+  private getTree(method: HttpMethod): RadixTree<RouteRecord> {
     let tree = this.trees.get(method);
     if (!tree) {
-      tree = new RadixTree();
+      tree = new RadixTree<RouteRecord>();
       this.trees.set(method, tree);
     }
     return tree;
   }
 
-  private getStaticRoutes(method: HttpMethod): Map<string, Handler> {
+  private getStaticRoutes(method: HttpMethod): Map<string, RouteRecord> {
     let routes = this.staticRoutes.get(method);
     if (!routes) {
       routes = new Map();
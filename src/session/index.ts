@@ -0,0 +1,12 @@
+/**
+ * Kyrin Framework - Session Module
+ * Cookie-based sessions with pluggable stores
+ */
+
+export * from "./types";
+export { Session } from "./session";
+export { MemorySessionStore } from "./stores/memory";
+export {
+  SQLiteSessionStore,
+  type SQLiteSessionStoreOptions,
+} from "./stores/sqlite";
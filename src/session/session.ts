@@ -0,0 +1,138 @@
+/**
+ * Kyrin Framework - Session
+ * Per-request view of a stored session
+ */
+
+import type { SessionRecord, SessionStore } from "./types";
+
+/**
+ * Session available as `c.session` with the `session()` plugin
+ * Changes are saved after the response is built
+ *
+ * @example
+ * app.post("/login", (c) => {
+ *   c.session.regenerate();
+ *   c.session.set("userId", user.id);
+ * });
+ */
+export class Session<Data extends object = Record<string, unknown>> {
+  private _id: string;
+  private _expiresAt: number;
+  private data: Record<string, unknown>;
+  /** Id of the record in the store (undefined until first saved) */
+  private storedId?: string;
+  private modified = false;
+  private touched = false;
+  private destroyed = false;
+
+  constructor(
+    private readonly store: SessionStore,
+    private readonly maxAge: number,
+    existing?: { id: string; record: SessionRecord }
+  ) {
+    this._id = existing?.id ?? generateId();
+    this._expiresAt = existing?.record.expiresAt ?? Date.now() + maxAge;
+    this.data = { ...existing?.record.data };
+    this.storedId = existing?.id;
+  }
+
+  /** Session id (sent in the session cookie) */
+  get id(): string {
+    return this._id;
+  }
+
+  /** True until the session is first saved (new sessions are saved once set) */
+  get isNew(): boolean {
+    return this.storedId === undefined;
+  }
+
+  get isDestroyed(): boolean {
+    return this.destroyed;
+  }
+
+  get expiresAt(): Date {
+    return new Date(this._expiresAt);
+  }
+
+  // ==================== Data ====================
+
+  get<K extends keyof Data & string>(key: K): Data[K] | undefined {
+    return this.data[key] as Data[K] | undefined;
+  }
+
+  /** Set a value (call again after changing nested objects) */
+  set<K extends keyof Data & string>(key: K, value: Data[K]): void {
+    this.data[key] = value;
+    this.modified = true;
+  }
+
+  delete(key: keyof Data & string): void {
+    if (!(key in this.data)) return;
+    delete this.data[key];
+    this.modified = true;
+  }
+
+  /** All values (a copy) */
+  all(): Partial<Data> {
+    return { ...this.data } as Partial<Data>;
+  }
+
+  // ==================== Lifecycle ====================
+
+  /** Remove the session from the store and expire its cookie */
+  destroy(): void {
+    this.destroyed = true;
+    this.data = {};
+  }
+
+  /**
+   * Move the data to a new session id (call on login to prevent fixation)
+   * The old id is removed from the store
+   */
+  regenerate(): void {
+    this._id = generateId();
+    this.modified = true;
+  }
+
+  /** Extend the expiry by `maxAge` (done on every request when rolling) */
+  touch(): void {
+    this._expiresAt = Date.now() + this.maxAge;
+    this.touched = true;
+  }
+
+  /** Persist changes (called by the plugin after the response is built) */
+  async save(): Promise<void> {
+    if (this.destroyed) {
+      if (this.storedId) await this.store.destroy(this.storedId);
+      this.storedId = undefined;
+      return;
+    }
+    // Nothing to keep for a new, empty session
+    if (!this.storedId && !this.modified) return;
+
+    const record = { data: this.data, expiresAt: this._expiresAt };
+    if (this.storedId && this.storedId !== this._id) {
+      await this.store.destroy(this.storedId);
+      this.storedId = undefined;
+    }
+    if (this.modified || !this.storedId) {
+      await this.store.set(this._id, record);
+    } else if (this.touched) {
+      await (this.store.touch
+        ? this.store.touch(this._id, this._expiresAt)
+        : this.store.set(this._id, record));
+    }
+    this.storedId = this._id;
+    this.modified = false;
+    this.touched = false;
+  }
+}
+
+// ==================== Private Helpers ====================
+
+/** 192-bit random id */
+function generateId(): string {
+  return Buffer.from(crypto.getRandomValues(new Uint8Array(24))).toString(
+    "base64url"
+  );
+}
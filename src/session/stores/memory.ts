@@ -0,0 +1,53 @@
+/**
+ * Kyrin Framework - Memory Session Store
+ * Keeps sessions in the process (tests and development)
+ */
+
+import type { SessionRecord, SessionStore } from "../types";
+
+/**
+ * In-memory session store
+ * Sessions are lost on restart and not shared between processes
+ *
+ * @example
+ * app.use(session({ store: new MemorySessionStore() }));
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, SessionRecord>();
+
+  get(id: string): SessionRecord | undefined {
+    const record = this.sessions.get(id);
+    if (record && record.expiresAt <= Date.now()) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+    // Copy so request changes only apply when saved
+    return record && structuredClone(record);
+  }
+
+  set(id: string, record: SessionRecord): void {
+    this.sessions.set(id, structuredClone(record));
+  }
+
+  destroy(id: string): void {
+    this.sessions.delete(id);
+  }
+
+  touch(id: string, expiresAt: number): void {
+    const record = this.sessions.get(id);
+    if (record) record.expiresAt = expiresAt;
+  }
+
+  /** Remove expired sessions */
+  prune(): void {
+    const now = Date.now();
+    for (const [id, record] of this.sessions) {
+      if (record.expiresAt <= now) this.sessions.delete(id);
+    }
+  }
+
+  /** Number of stored sessions (including expired, not yet pruned ones) */
+  get size(): number {
+    return this.sessions.size;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Kyrin Framework - SQLite Session Store
+ * Persists sessions in a table through Kyrin's Database
+ */
+
+import type { DatabaseClient } from "../../db/types";
+import type { SessionRecord, SessionStore } from "../types";
+
+export interface SQLiteSessionStoreOptions {
+  /** Table name, created if missing (default: "sessions") */
+  table?: string;
+  /** Milliseconds between cleanups, 0 to disable (default: 10 min) */
+  pruneInterval?: number;
+}
+
+interface SessionRow {
+  data: string;
+  expires_at: number;
+}
+
+/**
+ * SQLite session store
+ * Works with `Database` and `SQLiteClient`; expired rows are ignored on read
+ * and deleted periodically
+ *
+ * @example
+ * const db = database("sqlite:./data.db");
+ * app.use(session({ store: new SQLiteSessionStore(db) }));
+ */
+export class SQLiteSessionStore implements SessionStore {
+  private table: string;
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    private readonly db: DatabaseClient,
+    options: SQLiteSessionStoreOptions = {}
+  ) {
+    const { table = "sessions", pruneInterval = 10 * 60 * 1000 } = options;
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid session table name "${table}"`);
+    }
+    this.table = table;
+
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${table} (` +
+        "id TEXT PRIMARY KEY, data TEXT NOT NULL, expires_at INTEGER NOT NULL)"
+    );
+    db.exec(
+      `CREATE INDEX IF NOT EXISTS ${table}_expires_at ON ${table} (expires_at)`
+    );
+
+    if (pruneInterval > 0) {
+      this.timer = setInterval(() => this.prune(), pruneInterval);
+      // Don't keep the process alive just for cleanup
+      this.timer.unref?.();
+    }
+  }
+
+  get(id: string): SessionRecord | undefined {
+    const row = this.db.queryOne<SessionRow>(
+      `SELECT data, expires_at FROM ${this.table} ` +
+        "WHERE id = ? AND expires_at > ?",
+      [id, Date.now()]
+    );
+    if (!row) return undefined;
+    return { data: JSON.parse(row.data), expiresAt: row.expires_at };
+  }
+
+  set(id: string, record: SessionRecord): void {
+    this.db.run(
+      `INSERT OR REPLACE INTO ${this.table} (id, data, expires_at) ` +
+        "VALUES (?, ?, ?)",
+      [id, JSON.stringify(record.data), record.expiresAt]
+    );
+  }
+
+  destroy(id: string): void {
+    this.db.run(`DELETE FROM ${this.table} WHERE id = ?`, [id]);
+  }
+
+  touch(id: string, expiresAt: number): void {
+    this.db.run(`UPDATE ${this.table} SET expires_at = ? WHERE id = ?`, [
+      expiresAt,
+      id,
+    ]);
+  }
+
+  /**
+   * Delete expired rows
+   * @returns number of deleted sessions
+   */
+  prune(): number {
+    return this.db.run(`DELETE FROM ${this.table} WHERE expires_at <= ?`, [
+      Date.now(),
+    ]).changes;
+  }
+
+  /** Stop the cleanup timer */
+  close(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Kyrin Framework - Session Types
+ */
+
+import type { CookieOptions } from "../context/cookies";
+
+/** Session contents as persisted by a store */
+export interface SessionRecord {
+  data: Record<string, unknown>;
+  /** Expiry as a Unix timestamp in milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * Session persistence
+ * Implement this to keep sessions in Redis, Postgres, ...
+ *
+ * @example
+ * const store: SessionStore = {
+ *   get: async (id) => {
+ *     const json = await redis.get(id);
+ *     return json ? JSON.parse(json) : undefined;
+ *   },
+ *   set: async (id, record) => {
+ *     await redis.set(id, JSON.stringify(record));
+ *   },
+ *   destroy: async (id) => {
+ *     await redis.del(id);
+ *   },
+ * };
+ */
+export interface SessionStore {
+  /** Load a session; expired sessions must not be returned */
+  get(
+    id: string
+  ): SessionRecord | undefined | Promise<SessionRecord | undefined>;
+  /** Create or replace a session */
+  set(id: string, record: SessionRecord): void | Promise<void>;
+  /** Remove a session */
+  destroy(id: string): void | Promise<void>;
+  /** Extend the expiry of an unchanged session (falls back to `set`) */
+  touch?(id: string, expiresAt: number): void | Promise<void>;
+  /** Release timers and connections (called when the server stops) */
+  close?(): void | Promise<void>;
+}
+
+export interface SessionOptions {
+  /** Where sessions are kept (default: in-memory, for tests and dev) */
+  store?: SessionStore;
+  /** Name of the session id cookie (default: "sid") */
+  cookieName?: string;
+  /** Session lifetime in seconds (default: 86400) */
+  maxAge?: number;
+  /** Extend the expiry on every request (default: true) */
+  rolling?: boolean;
+  /** Cookie attributes (default: path "/", httpOnly, sameSite "Lax") */
+  cookie?: Omit<CookieOptions, "maxAge" | "expires">;
+}
@@ -0,0 +1,13 @@
+/**
+ * Kyrin Framework - Testing Module
+ * Helpers for in-process tests
+ */
+
+export { TestClient, testClient } from "./test-client";
+export type {
+  Fetchable,
+  TestClientOptions,
+  TestQuery,
+  TestRequestInit,
+  TestResponse,
+} from "./test-client";
@@ -0,0 +1,208 @@
+/**
+ * Kyrin Framework - Test Client
+ * In-process requests for tests, no port binding required
+ */
+
+import { appendQuery, type QueryValue } from "../context/query";
+
+/** Anything with a fetch handler (e.g., a Kyrin app) */
+export interface Fetchable {
+  fetch(req: Request): Response | Promise<Response>;
+}
+
+/** Query values; arrays become repeated keys, objects `a[b]` keys */
+export type TestQuery = Record<string, QueryValue>;
+
+export interface TestRequestInit extends Omit<RequestInit, "body" | "headers"> {
+  headers?: Record<string, string>;
+  /** Appended to the URL search params */
+  query?: TestQuery;
+  /** Sent as JSON with `Content-Type: application/json` */
+  json?: unknown;
+  /** Sent as FormData */
+  form?: Record<string, string | Blob>;
+  /** Raw body (when not using json/form) */
+  body?: RequestInit["body"];
+  /** Extra cookies for this request only */
+  cookies?: Record<string, string>;
+}
+
+export interface TestClientOptions {
+  /** Base URL for relative paths (default: "http://localhost") */
+  baseUrl?: string;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+}
+
+/** Parsed response */
+export interface TestResponse<T = unknown> {
+  status: number;
+  ok: boolean;
+  headers: Headers;
+  /** JSON body when Content-Type is JSON, otherwise the text */
+  body: T;
+  text: string;
+  /** Cookies set by this response */
+  cookies: Record<string, string>;
+  /** Original Response */
+  raw: Response;
+}
+
+/**
+ * Test client with a cookie jar
+ * Cookies from `Set-Cookie` are kept and sent on following requests
+ *
+ * @example
+ * ```typescript
+ * const client = testClient(app);
+ * const res = await client.post("/users", { json: { name: "John" } });
+ * expect(res.status).toBe(201);
+ * expect(res.body).toEqual({ id: 1, name: "John" });
+ * ```
+ */
+export class TestClient {
+  /** Cookies persisted between requests */
+  readonly cookies = new Map<string, string>();
+
+  private baseUrl: string;
+  private defaultHeaders: Record<string, string>;
+
+  constructor(
+    private app: Fetchable,
+    options: TestClientOptions = {}
+  ) {
+    this.baseUrl = options.baseUrl ?? "http://localhost";
+    this.defaultHeaders = options.headers ?? {};
+  }
+
+  // ==================== HTTP Method Shortcuts ====================
+
+  get<T = unknown>(path: string, init?: TestRequestInit) {
+    return this.request<T>("GET", path, init);
+  }
+
+  post<T = unknown>(path: string, init?: TestRequestInit) {
+    return this.request<T>("POST", path, init);
+  }
+
+  put<T = unknown>(path: string, init?: TestRequestInit) {
+    return this.request<T>("PUT", path, init);
+  }
+
+  patch<T = unknown>(path: string, init?: TestRequestInit) {
+    return this.request<T>("PATCH", path, init);
+  }
+
+  delete<T = unknown>(path: string, init?: TestRequestInit) {
+    return this.request<T>("DELETE", path, init);
+  }
+
+  head<T = unknown>(path: string, init?: TestRequestInit) {
+    return this.request<T>("HEAD", path, init);
+  }
+
+  options<T = unknown>(path: string, init?: TestRequestInit) {
+    return this.request<T>("OPTIONS", path, init);
+  }
+
+  // ==================== Request ====================
+
+  /** Send a request and parse the response */
+  async request<T = unknown>(
+    method: string,
+    path: string,
+    init: TestRequestInit = {}
+  ): Promise<TestResponse<T>> {
+    const { query, json, form, cookies, headers, body, ...rest } = init;
+    const url = new URL(path, this.baseUrl);
+    appendQuery(url.searchParams, query ?? {});
+
+    const requestHeaders = new Headers({ ...this.defaultHeaders, ...headers });
+    let requestBody: RequestInit["body"] = body;
+
+    if (json !== undefined) {
+      requestBody = JSON.stringify(json);
+      if (!requestHeaders.has("Content-Type")) {
+        requestHeaders.set("Content-Type", "application/json");
+      }
+    } else if (form) {
+      const data = new FormData();
+      for (const [key, value] of Object.entries(form)) data.append(key, value);
+      requestBody = data;
+    }
+
+    const cookieHeader = this.cookieHeader(cookies);
+    if (cookieHeader) requestHeaders.set("Cookie", cookieHeader);
+
+    const raw = await this.app.fetch(
+      new Request(url.href, {
+        ...rest,
+        method,
+        headers: requestHeaders,
+        body: requestBody,
+      })
+    );
+
+    const setCookies = this.storeCookies(raw);
+    const text = await raw.clone().text();
+    const contentType = raw.headers.get("Content-Type") ?? "";
+    const parsed = contentType.includes("json") && text ? JSON.parse(text) : text;
+
+    return {
+      status: raw.status,
+      ok: raw.ok,
+      headers: raw.headers,
+      body: parsed as T,
+      text,
+      cookies: setCookies,
+      raw,
+    };
+  }
+
+  // ==================== Private Helpers ====================
+
+  private cookieHeader(extra: Record<string, string> = {}): string {
+    const all = { ...Object.fromEntries(this.cookies), ...extra };
+    return Object.entries(all)
+      .map(([name, value]) => `${name}=${value}`)
+      .join("; ");
+  }
+
+  /** Update the jar from Set-Cookie; expired cookies are removed */
+  private storeCookies(res: Response): Record<string, string> {
+    const set: Record<string, string> = {};
+    for (const header of res.headers.getSetCookie()) {
+      const [pair = "", ...attributes] = header.split(";");
+      const index = pair.indexOf("=");
+      if (index === -1) continue;
+      const name = pair.slice(0, index).trim();
+      const value = pair.slice(index + 1).trim();
+
+      const expired = attributes.some((attr) => {
+        const [key = "", val = ""] = attr.trim().split("=");
+        const lower = key.toLowerCase();
+        if (lower === "max-age") return Number(val) <= 0;
+        if (lower === "expires") return new Date(val).getTime() <= Date.now();
+        return false;
+      });
+
+      set[name] = value;
+      if (expired) this.cookies.delete(name);
+      else this.cookies.set(name, value);
+    }
+    return set;
+  }
+}
+
+/**
+ * Create a test client for an app
+ * @example
+ * const client = testClient(app);
+ * const { status, body } = await client.get("/users/1");
+ */
+export function testClient(
+  app: Fetchable,
+  options?: TestClientOptions
+): TestClient {
+  return new TestClient(app, options);
+}
@@ -0,0 +1,116 @@
+/**
+ * Kyrin Framework - Query Coercion
+ * Turns query strings into the types a schema expects
+ */
+
+import type { z } from "zod";
+
+/**
+ * Coerce parsed query values along a schema
+ * - number / bigint: "2" → 2
+ * - boolean: "true" / "1" → true, "false" / "0" → false
+ * - date: ISO strings → Date
+ * - array: a single value → [value]
+ * - empty strings for these types → undefined (so optional fields pass)
+ * Anything that doesn't convert is left for the schema to reject
+ * @example
+ * coerce(z.object({ page: z.number() }), { page: "2" }); // { page: 2 }
+ */
+export function coerce(schema: z.core.$ZodType, value: unknown): unknown {
+  const def = (schema as z.core.$ZodTypes)._zod.def;
+  switch (def.type) {
+    case "optional":
+    case "nullable":
+    case "default":
+    case "prefault":
+    case "catch":
+    case "readonly":
+    case "nonoptional":
+      return coerce(def.innerType, value);
+    case "pipe":
+      return coerce(def.in, value);
+    case "lazy":
+      return coerce(def.getter(), value);
+    case "number":
+      return scalar(value, (text) => {
+        const number = Number(text);
+        return text.trim() && !Number.isNaN(number) ? number : text;
+      });
+    case "bigint":
+      return scalar(value, (text) => {
+        try {
+          return BigInt(text);
+        } catch {
+          return text;
+        }
+      });
+    case "boolean":
+      return scalar(value, (text) =>
+        text === "true" || text === "1"
+          ? true
+          : text === "false" || text === "0"
+            ? false
+            : text
+      );
+    case "date":
+      return scalar(value, (text) => {
+        const date = new Date(text);
+        return Number.isNaN(date.getTime()) ? text : date;
+      });
+    case "literal": {
+      if (typeof value !== "string") return value;
+      const match = def.values.find((literal) => String(literal) === value);
+      return match ?? value;
+    }
+    case "array": {
+      if (value === undefined) return value;
+      const items = Array.isArray(value) ? value : [value];
+      return items.map((item) => coerce(def.element, item));
+    }
+    case "tuple":
+      if (!Array.isArray(value)) return value;
+      return value.map((item, i) => {
+        const element = def.items[i] ?? def.rest;
+        return element ? coerce(element, item) : item;
+      });
+    case "object": {
+      if (!isRecord(value)) return value;
+      const result: Record<string, unknown> = { ...value };
+      for (const [key, field] of Object.entries(def.shape)) {
+        if (key in result) result[key] = coerce(field, result[key]);
+      }
+      return result;
+    }
+    case "record": {
+      if (!isRecord(value)) return value;
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = coerce(def.valueType, item);
+      }
+      return result;
+    }
+    case "union":
+      // First option the coerced value satisfies
+      for (const option of def.options) {
+        const coerced = coerce(option, value);
+        const result = option["~standard"].validate(coerced);
+        if (!(result instanceof Promise) && !result.issues) return coerced;
+      }
+      return value;
+    default:
+      return value;
+  }
+}
+
+// ==================== Private Helpers ====================
+
+/** Convert a string (each one of repeated values); "" → undefined */
+function scalar(value: unknown, convert: (text: string) => unknown): unknown {
+  if (Array.isArray(value)) return value.map((item) => scalar(item, convert));
+  if (typeof value !== "string") return value;
+  return value === "" ? undefined : convert(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
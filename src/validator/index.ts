@@ -0,0 +1,7 @@
+/**
+ * Kyrin Framework - Validator Module
+ * Schema validation for route input
+ */
+
+export * from "./types";
+export { withValidation } from "./validate";
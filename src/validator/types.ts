@@ -0,0 +1,55 @@
+/**
+ * Kyrin Framework - Validation Types
+ * Types for schema-validated routes
+ */
+
+import type { z } from "zod";
+
+/** Request parts that can be validated */
+export type ValidationTarget = "params" | "query" | "headers" | "body";
+
+/** Route documentation (used by OpenAPI generation) */
+export interface RouteDetail {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  operationId?: string;
+  deprecated?: boolean;
+  /** Security requirements, e.g. `[{ bearerAuth: [] }]` */
+  security?: Record<string, string[]>[];
+  /** Leave this route out of the OpenAPI document */
+  hide?: boolean;
+}
+
+/**
+ * Per-route schema: validation targets plus documentation
+ * @example
+ * app.post("/users/:id", {
+ *   params: z.object({ id: z.coerce.number() }),
+ *   body: z.object({ name: z.string() }),
+ *   response: { 201: User, 404: z.object({ title: z.string() }) },
+ *   detail: { summary: "Create user", tags: ["users"] },
+ * }, (c) => ({ id: c.params.id }));
+ */
+export type RouteSchema = {
+  [K in ValidationTarget]?: z.ZodType;
+} & {
+  /** Response body schema, or schemas by status code (documentation only) */
+  response?: z.ZodType | Record<number, z.ZodType>;
+  detail?: RouteDetail;
+};
+
+/** Infer validated input types from a route schema */
+export type InferSchema<S extends RouteSchema> = {
+  [K in keyof S & ValidationTarget]: S[K] extends z.ZodType
+    ? z.output<S[K]>
+    : never;
+};
+
+/** A single validation problem */
+export interface ValidationIssue {
+  /** Dotted path to the invalid field (e.g., "user.email") */
+  path: string;
+  message: string;
+  code: string;
+}
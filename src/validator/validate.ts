@@ -0,0 +1,90 @@
+/**
+ * Kyrin Framework - Route Validation
+ * Validates params, query, headers and body before the handler runs
+ */
+
+import type { z } from "zod";
+import type { Context } from "../context/context";
+import type { Handler } from "../core/types";
+import {
+  BadRequestError,
+  HttpError,
+  ValidationError,
+} from "../errors/http-error";
+import { coerce } from "./coerce";
+import type { RouteSchema, ValidationTarget } from "./types";
+
+/** Validation order: cheapest first, body last */
+const TARGETS: ValidationTarget[] = ["params", "query", "headers", "body"];
+
+/**
+ * Wrap a handler with schema validation
+ *
+ * - Invalid params/query/headers → ValidationError (400)
+ * - Malformed body → BadRequestError (400)
+ * - Invalid body → ValidationError (422)
+ */
+export function withValidation(
+  schema: RouteSchema,
+  handler: Handler<any>
+): Handler {
+  return async (c) => {
+    for (const target of TARGETS) {
+      const zod = schema[target];
+      if (!zod) continue;
+
+      let input: unknown;
+      try {
+        input = await readTarget(c, target, zod);
+      } catch (error) {
+        // Body limit (413) and similar errors keep their status
+        if (error instanceof HttpError) throw error;
+        throw new BadRequestError("Malformed request body", { cause: error });
+      }
+
+      const result = await zod.safeParseAsync(input);
+      if (!result.success) {
+        throw new ValidationError(
+          target,
+          result.error.issues.map((issue) => ({
+            path: issue.path.map(String).join("."),
+            message: issue.message,
+            code: issue.code,
+          }))
+        );
+      }
+
+      c.setValid(target, result.data);
+    }
+
+    return handler(c);
+  };
+}
+
+// ==================== Private Helpers ====================
+
+async function readTarget(
+  c: Context,
+  target: ValidationTarget,
+  schema: z.ZodType
+): Promise<unknown> {
+  switch (target) {
+    case "params":
+      return c.params;
+    case "query":
+      return coerce(schema, c.queryObject());
+    case "headers":
+      return Object.fromEntries(c.req.headers);
+    case "body":
+      return readBody(c);
+  }
+}
+
+async function readBody(c: Context): Promise<unknown> {
+  const body = await c.parseBody();
+  // Bodies without a JSON or form Content-Type are read as JSON
+  if (typeof body === "string" || body instanceof Uint8Array) {
+    return await c.body();
+  }
+  return body;
+}
@@ -0,0 +1,7 @@
+/**
+ * Kyrin Framework - WebSocket Module
+ * WebSocket routes with topic pub/sub
+ */
+
+export * from "./types";
+export { upgradeHandler, websocketHandler } from "./websocket";
@@ -0,0 +1,49 @@
+/**
+ * Kyrin Framework - WebSocket Types
+ */
+
+import type { ServerWebSocket } from "bun";
+import type { Context } from "../context/context";
+
+/** Per-connection data available as `ws.data` */
+export interface WebSocketData<D = unknown> {
+  /** Route params from the upgrade request */
+  params: Record<string, string>;
+  /** `c.store` from the upgrade request (e.g., auth middleware results) */
+  store: Record<string, unknown>;
+  /** Value returned by the `upgrade` handler */
+  data: D;
+}
+
+/** Bun ServerWebSocket with Kyrin connection data */
+export type KyrinWebSocket<D = unknown> = ServerWebSocket<WebSocketData<D>>;
+
+/**
+ * WebSocket route handlers
+ *
+ * @example
+ * app.ws<{ user: string }>("/chat/:room", {
+ *   upgrade: (c) => ({ user: c.store.user as string }),
+ *   open: (ws) => ws.subscribe(ws.data.params.room!),
+ *   message: (ws, msg) => ws.publish(ws.data.params.room!, `${ws.data.data.user}: ${msg}`),
+ * });
+ */
+export interface WebSocketHandlers<D = undefined> {
+  /**
+   * Runs before the upgrade (after hooks and middleware)
+   * Return per-connection data, or a Response to reject the upgrade
+   */
+  upgrade?: (c: Context) => D | Response | Promise<D | Response>;
+  open?: (ws: KyrinWebSocket<D>) => void | Promise<void>;
+  message?: (
+    ws: KyrinWebSocket<D>,
+    message: string | Buffer
+  ) => void | Promise<void>;
+  close?: (
+    ws: KyrinWebSocket<D>,
+    code: number,
+    reason: string
+  ) => void | Promise<void>;
+  /** Socket is ready for more data after backpressure */
+  drain?: (ws: KyrinWebSocket<D>) => void | Promise<void>;
+}
@@ -0,0 +1,76 @@
+/**
+ * Kyrin Framework - WebSocket Routes
+ * Upgrade handling and dispatch to per-route handlers
+ */
+
+import type { WebSocketHandler } from "bun";
+import type { Handler } from "../core/types";
+import { mergeHeaders } from "../core/headers";
+import { BadRequestError, HttpError } from "../errors/http-error";
+import type {
+  KyrinWebSocket,
+  WebSocketData,
+  WebSocketHandlers,
+} from "./types";
+
+/** Route handlers are carried on the socket data (Bun has one global handler) */
+const HANDLERS = Symbol("kyrin.ws.handlers");
+
+type SocketData = WebSocketData<any> & {
+  [HANDLERS]: WebSocketHandlers<any>;
+};
+
+/**
+ * Create a route handler that upgrades the request to a WebSocket
+ * Runs as a normal GET route, so hooks and middleware apply first
+ */
+export function upgradeHandler<D>(handlers: WebSocketHandlers<D>): Handler {
+  return async (c) => {
+    if (c.header("Upgrade")?.toLowerCase() !== "websocket") {
+      throw new HttpError(426, "Expected a WebSocket upgrade", {
+        headers: { Upgrade: "websocket" },
+      });
+    }
+    if (!c.server) {
+      throw new HttpError(426, "WebSocket upgrades require a running server");
+    }
+
+    const data = handlers.upgrade ? await handlers.upgrade(c) : undefined;
+    if (data instanceof Response) return data;
+
+    const socketData: SocketData = {
+      params: c.params,
+      store: c.store,
+      data,
+      [HANDLERS]: handlers,
+    };
+    const upgraded = c.server.upgrade(c.req, {
+      data: socketData,
+      headers: mergeHeaders(c.set.headers),
+    });
+    if (!upgraded) throw new BadRequestError("WebSocket upgrade failed");
+
+    // Ignored by Bun after a successful upgrade
+    return new Response(null, { status: 101 });
+  };
+}
+
+function handlersOf(ws: KyrinWebSocket<any>): WebSocketHandlers<any> {
+  return (ws.data as SocketData)[HANDLERS];
+}
+
+/** Bun websocket handler dispatching to the matched route */
+export const websocketHandler: WebSocketHandler<WebSocketData<any>> = {
+  open(ws) {
+    return handlersOf(ws).open?.(ws);
+  },
+  message(ws, message) {
+    return handlersOf(ws).message?.(ws, message);
+  },
+  close(ws, code, reason) {
+    return handlersOf(ws).close?.(ws, code, reason);
+  },
+  drain(ws) {
+    return handlersOf(ws).drain?.(ws);
+  },
+};
@@ -0,0 +1,29 @@
+import { describe, expect, test } from "bun:test";
+import { Kyrin, bodyLimit } from "../src/lib";
+
+const app = new Kyrin({ bodyLimit: 8 })
+  .post("/echo", (c) => c.text())
+  .post("/big", bodyLimit(64), (c) => c.text());
+
+function post(path: string, body: string | ReadableStream) {
+  return app.request(path, { method: "POST", body });
+}
+
+describe("bodyLimit", () => {
+  test("rejects a declared Content-Length over the limit", async () => {
+    const res = await post("/echo", "x".repeat(9));
+    expect(res.status).toBe(413);
+    expect((await post("/echo", "12345678")).status).toBe(200);
+  });
+
+  test("cuts off bodies without a Content-Length", async () => {
+    const stream = new Blob(["x".repeat(9)]).stream();
+    expect((await post("/echo", stream)).status).toBe(413);
+  });
+
+  test("bodyLimit() overrides the config per route", async () => {
+    const res = await post("/big", "x".repeat(64));
+    expect(await res.text()).toBe("x".repeat(64));
+    expect((await post("/big", "x".repeat(65))).status).toBe(413);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import { rm } from "node:fs/promises";
+import { Kyrin, testClient } from "../src/lib";
+
+const app = new Kyrin()
+  .post("/parse", async (c) => {
+    const first = await c.parseBody<object>();
+    // Cached: reading again (in any form) works
+    expect(await c.parseBody<object>()).toBe(first);
+    return { body: first, length: (await c.bytes()).byteLength };
+  })
+  .post("/raw", async (c) => {
+    const body = await c.parseBody<Uint8Array>();
+    return { bytes: Array.from(body) };
+  })
+  .post("/upload", async (c) => {
+    const { fields, files } = await c.upload();
+    await Promise.all(files.map((file) => rm(file.path, { force: true })));
+    return { fields, names: files.map((file) => file.filename) };
+  })
+  .post("/upload-then-text", async (c) => {
+    const { files } = await c.upload();
+    await Promise.all(files.map((file) => rm(file.path, { force: true })));
+    return c.text();
+  });
+
+const client = testClient(app);
+
+describe("c.parseBody()", () => {
+  test("parses by Content-Type", async () => {
+    const json = await client.post("/parse", { json: { a: 1 } });
+    expect(json.body).toEqual({ body: { a: 1 }, length: 7 });
+
+    const form = await app.request("/parse", {
+      method: "POST",
+      body: new URLSearchParams("tag=a&tag=b&name=kyrin"),
+    });
+    expect(await form.json()).toEqual({
+      body: { tag: ["a", "b"], name: "kyrin" },
+      length: 22,
+    });
+
+    const text = await app.request("/parse", {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      body: "hi",
+    });
+    expect(await text.json()).toEqual({ body: "hi", length: 2 });
+  });
+
+  test("returns bytes for other types", async () => {
+    const res = await app.request("/raw", {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: new Uint8Array([1, 2, 3]),
+    });
+    expect(await res.json()).toEqual({ bytes: [1, 2, 3] });
+  });
+
+  test("answers malformed JSON with a 400", async () => {
+    const res = await app.request("/parse", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{oops",
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("c.upload()", () => {
+  function multipart(): FormData {
+    const form = new FormData();
+    form.set("title", "hello");
+    form.set("file", new File(["content"], "a.txt", { type: "text/plain" }));
+    return form;
+  }
+
+  test("collects fields and stores files", async () => {
+    const res = await app.request("/upload", {
+      method: "POST",
+      body: multipart(),
+    });
+    expect(await res.json()).toEqual({
+      fields: { title: "hello" },
+      names: ["a.txt"],
+    });
+  });
+
+  test("reading the body after an upload is a clear error", async () => {
+    const res = await app.request("/upload-then-text", {
+      method: "POST",
+      body: multipart(),
+    });
+    expect(res.status).toBe(500);
+    expect(await res.json()).toMatchObject({
+      detail: expect.stringContaining("c.upload()"),
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import { ClientError, Kyrin, NotFoundError, createClient } from "../src/lib";
+
+const app = new Kyrin()
+  .get("/users/:id", (c) => {
+    if (c.params.id === "0") throw new NotFoundError("No user 0");
+    return { id: c.params.id, name: "ada", role: c.header("X-Role") };
+  })
+  .get(
+    "/search",
+    { query: z.object({ q: z.string(), page: z.coerce.number().optional() }) },
+    (c) => c.valid("query")
+  )
+  .post(
+    "/users",
+    { body: z.object({ name: z.string() }) },
+    (c) => ({ created: c.valid("body").name })
+  )
+  .delete("/users/:id", () => null);
+
+const client = createClient<typeof app>(app, {
+  headers: { "X-Role": "admin" },
+});
+
+describe("createClient()", () => {
+  test("calls routes with typed params, query and body", async () => {
+    const user = await client.users[":id"].get({ params: { id: 1 } });
+    expect(user).toEqual({ id: "1", name: "ada", role: "admin" });
+
+    const search = await client.search.get({ query: { q: "kyrin", page: 2 } });
+    expect(search).toEqual({ q: "kyrin", page: 2 });
+
+    const created = await client.users.post({ body: { name: "bob" } });
+    expect(created.created).toBe("bob");
+
+    const deleted = await client.users[":id"].delete({ params: { id: 1 } });
+    expect(deleted).toBeNull();
+  });
+
+  test("throws ClientError with the problem details", async () => {
+    const error = await client.users[":id"]
+      .get({ params: { id: 0 } })
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ClientError);
+    expect((error as ClientError).status).toBe(404);
+    expect((error as ClientError).message).toBe("No user 0");
+  });
+
+  test("is checked against the route table", () => {
+    // Type-level only: these calls must not compile
+    const typeChecks = () => {
+      // @ts-expect-error missing required body
+      void client.users.post();
+      // @ts-expect-error wrong body field type
+      void client.users.post({ body: { name: 1 } });
+      // @ts-expect-error unknown route
+      void client.posts.get();
+    };
+    expect(typeChecks).toBeFunction();
+  });
+
+  test("uses a custom fetch for a base URL", async () => {
+    const urls: string[] = [];
+    const remote = createClient<typeof app>("https://api.example.com/", {
+      fetch: (req) => {
+        urls.push(req.url);
+        return app.fetch(req);
+      },
+    });
+    await remote.search.get({ query: { q: "a b" } });
+    expect(urls).toEqual(["https://api.example.com/search?q=a+b"]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import { gunzipSync } from "node:zlib";
+import { Kyrin, compress } from "../src/lib";
+
+const big = "kyrin ".repeat(500);
+
+const app = new Kyrin()
+  .use(compress())
+  .get("/big", () => big)
+  .get("/small", () => "tiny")
+  .get("/image", (c) => {
+    c.set.headers["Content-Type"] = "image/png";
+    return new Uint8Array(4096);
+  })
+  .get("/stream", (c) =>
+    c.streamText(async (stream) => {
+      await stream.sleep(1);
+      await stream.write("streamed");
+    })
+  );
+
+function get(path: string, encoding = "gzip, deflate, br") {
+  return app.request(path, { headers: { "Accept-Encoding": encoding } });
+}
+
+async function gunzip(res: Response): Promise<string> {
+  return gunzipSync(Buffer.from(await res.arrayBuffer())).toString();
+}
+
+describe("compress()", () => {
+  test("compresses large bodies with the negotiated encoding", async () => {
+    const res = await get("/big", "gzip");
+    expect(res.headers.get("Content-Encoding")).toBe("gzip");
+    expect(res.headers.get("Vary")).toBe("Accept-Encoding");
+    expect(res.headers.has("Content-Length")).toBe(false);
+    expect(await gunzip(res)).toBe(big);
+  });
+
+  test("prefers the server order on equal q-values", async () => {
+    expect((await get("/big")).headers.get("Content-Encoding")).toBe("br");
+    expect(
+      (await get("/big", "br;q=0.5, gzip")).headers.get("Content-Encoding")
+    ).toBe("gzip");
+    const identity = await get("/big", "identity");
+    expect(identity.headers.has("Content-Encoding")).toBe(false);
+  });
+
+  test("skips small bodies and compressed types", async () => {
+    const small = await get("/small");
+    expect(small.headers.has("Content-Encoding")).toBe(false);
+    expect(small.headers.get("Vary")).toBe("Accept-Encoding");
+    expect(await small.text()).toBe("tiny");
+
+    const image = await get("/image");
+    expect(image.headers.has("Content-Encoding")).toBe(false);
+  });
+
+  test("compresses live streams as they are written", async () => {
+    const res = await get("/stream", "gzip");
+    expect(res.headers.get("Content-Encoding")).toBe("gzip");
+    expect(await gunzip(res)).toBe("streamed");
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+import { Kyrin, testClient } from "../src/lib";
+
+function cookieApp(secret: string | string[]) {
+  return new Kyrin({ secret })
+    .post("/signed", async (c) => {
+      await c.setSignedCookie("user", "42");
+      return null;
+    })
+    .get("/signed", async (c) => ({ user: await c.signedCookie("user") }))
+    .post("/encrypted", async (c) => {
+      await c.setEncryptedCookie("prefs", "dark");
+      return null;
+    })
+    .get("/encrypted", async (c) => ({
+      prefs: await c.encryptedCookie("prefs"),
+    }));
+}
+
+describe("signed cookies", () => {
+  test("round trip, readable but not forgeable", async () => {
+    const client = testClient(cookieApp("s3cret"));
+    const set = await client.post("/signed");
+    expect(set.cookies.user).toStartWith("42.");
+
+    expect((await client.get("/signed")).body).toEqual({ user: "42" });
+
+    const forged = set.cookies.user!.replace(/^42/, "43");
+    const res = await client.get("/signed", { cookies: { user: forged } });
+    expect(res.body).toEqual({});
+  });
+
+  test("rotated secrets still read old cookies", async () => {
+    const set = await testClient(cookieApp("old")).post("/signed");
+    const res = await testClient(cookieApp(["new", "old"])).get("/signed", {
+      cookies: { user: set.cookies.user! },
+    });
+    expect(res.body).toEqual({ user: "42" });
+  });
+});
+
+describe("encrypted cookies", () => {
+  test("round trip, not readable by the client", async () => {
+    const client = testClient(cookieApp("s3cret"));
+    const set = await client.post("/encrypted");
+    expect(set.cookies.prefs).toBeDefined();
+    expect(set.cookies.prefs).not.toContain("dark");
+
+    expect((await client.get("/encrypted")).body).toEqual({ prefs: "dark" });
+  });
+
+  test("tampered or foreign cookies read as undefined", async () => {
+    const set = await testClient(cookieApp("s3cret")).post("/encrypted");
+    const value = set.cookies.prefs!;
+    const tampered = value.slice(0, -2) + (value.endsWith("A") ? "BB" : "AA");
+
+    const client = testClient(cookieApp("s3cret"));
+    const res = await client.get("/encrypted", {
+      cookies: { prefs: tampered },
+    });
+    expect(res.body).toEqual({});
+
+    const other = testClient(cookieApp("other"));
+    expect(
+      (await other.get("/encrypted", { cookies: { prefs: value } })).body
+    ).toEqual({});
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { Kyrin } from "../src/lib";
+
+describe("decorate()", () => {
+  test("adds values to every context, also in mounted apps", async () => {
+    const db = { name: "db" };
+    const api = new Kyrin().get("/db", (c) => ({
+      name: (c as unknown as { db: typeof db }).db.name,
+    }));
+    const app = new Kyrin()
+      .decorate("db", db)
+      .decorate({ version: 2 })
+      .get("/", (c) => ({ same: c.db === db, version: c.version }))
+      .mount("/api", api);
+
+    expect(await (await app.request("/")).json()).toEqual({
+      same: true,
+      version: 2,
+    });
+    expect(await (await app.request("/api/db")).json()).toEqual({
+      name: "db",
+    });
+  });
+
+  test("stays scoped to a group", async () => {
+    const app = new Kyrin()
+      .group("/g", (g) => {
+        g.decorate("tag", "group").get("/", (c) => ({ tag: c.tag }));
+      })
+      .get("/", (c) => ({ tag: (c as { tag?: string }).tag ?? null }));
+
+    expect(await (await app.request("/g")).json()).toEqual({ tag: "group" });
+    expect(await (await app.request("/")).json()).toEqual({ tag: null });
+  });
+
+  test("refuses Context members", () => {
+    expect(() => new Kyrin().decorate("json", 1)).toThrow(
+      'Cannot decorate "json"'
+    );
+  });
+});
+
+describe("derive()", () => {
+  test("computes values per request", async () => {
+    let count = 0;
+    const app = new Kyrin()
+      .derive((c) => ({ user: c.header("X-User"), n: ++count }))
+      .get("/", (c) => ({ user: c.user, n: c.n }));
+
+    const res = await app.request("/", { headers: { "X-User": "ada" } });
+    expect(await res.json()).toEqual({ user: "ada", n: 1 });
+    expect(await (await app.request("/")).json()).toEqual({
+      user: null,
+      n: 2,
+    });
+  });
+
+  test("refuses Context members", async () => {
+    const app = new Kyrin()
+      .derive(() => ({ json: () => "hijacked" }))
+      .get("/", (c) => c.json({ ok: true }));
+
+    const res = await app.request("/");
+    expect(res.status).toBe(500);
+  });
+});
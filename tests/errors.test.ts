@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
+import {
+  ConflictError,
+  HttpError,
+  Kyrin,
+  NotFoundError,
+  TooManyRequestsError,
+  problemResponse,
+} from "../src/lib";
+
+const consoleError = spyOn(console, "error").mockImplementation(() => {});
+afterEach(() => consoleError.mockClear());
+
+function createApp(development = false) {
+  return new Kyrin({ development })
+    .get("/conflict", () => {
+      throw new ConflictError("Email taken", {
+        type: "https://example.com/problems/email-taken",
+        payload: { field: "email" },
+      });
+    })
+    .get("/teapot", () => {
+      throw new HttpError(418);
+    })
+    .get("/slow-down", (c) => {
+      c.set.headers["X-Request-Id"] = "r1";
+      throw new TooManyRequestsError(undefined, {
+        headers: { "Retry-After": "30" },
+      });
+    })
+    .get("/crash", () => {
+      throw new Error("database password is hunter2");
+    });
+}
+
+describe("HttpError responses", () => {
+  test("become application/problem+json", async () => {
+    const res = await createApp().request("/conflict");
+    expect(res.status).toBe(409);
+    expect(res.headers.get("Content-Type")).toBe("application/problem+json");
+    expect(await res.json()).toEqual({
+      type: "https://example.com/problems/email-taken",
+      title: "Conflict",
+      status: 409,
+      detail: "Email taken",
+      instance: "/conflict",
+      field: "email",
+    });
+  });
+
+  test("use the status title when there is no message", async () => {
+    const res = await createApp().request("/teapot");
+    expect(await res.json()).toEqual({
+      type: "about:blank",
+      title: "Client Error",
+      status: 418,
+      instance: "/teapot",
+    });
+  });
+
+  test("keep c.set headers and add the error's own", async () => {
+    const res = await createApp().request("/slow-down");
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toBe("30");
+    expect(res.headers.get("X-Request-Id")).toBe("r1");
+  });
+});
+
+describe("unexpected errors", () => {
+  test("hide the message outside development", async () => {
+    const res = await createApp().request("/crash");
+    expect(res.status).toBe(500);
+    const body = await res.json();
+    expect(body).toEqual({
+      type: "about:blank",
+      title: "Internal Server Error",
+      status: 500,
+      instance: "/crash",
+    });
+    expect(consoleError).toHaveBeenCalled();
+  });
+
+  test("show message and stack in development", async () => {
+    const res = await createApp(true).request("/crash");
+    expect(await res.json()).toMatchObject({
+      detail: "database password is hunter2",
+      stack: expect.stringContaining("Error"),
+    });
+  });
+});
+
+describe("onError", () => {
+  test("replaces the response, or falls back on undefined", async () => {
+    const app = createApp().onError((error, c) => {
+      if (error instanceof NotFoundError) {
+        return c.json({ message: error.message }, 404);
+      }
+    });
+    app.get("/user", () => {
+      throw new NotFoundError("User not found");
+    });
+
+    const custom = await app.request("/user");
+    expect(custom.status).toBe(404);
+    expect(await custom.json()).toEqual({ message: "User not found" });
+
+    const fallback = await app.request("/conflict");
+    expect(fallback.headers.get("Content-Type")).toBe(
+      "application/problem+json"
+    );
+  });
+
+  test("an error thrown by onError gets the default response", async () => {
+    const app = createApp().onError(() => {
+      throw new ConflictError("from handler");
+    });
+    const res = await app.request("/crash");
+    expect(res.status).toBe(409);
+    expect(await res.json()).toMatchObject({ detail: "from handler" });
+  });
+});
+
+describe("problemResponse()", () => {
+  test("builds a problem with defaults", async () => {
+    const res = problemResponse({ status: 404, detail: "User 1 not found" });
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({
+      type: "about:blank",
+      title: "Not Found",
+      status: 404,
+      detail: "User 1 not found",
+    });
+  });
+});
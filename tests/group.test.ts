@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import { BadRequestError, Kyrin, NotFoundError } from "../src/lib";
+
+class Money {
+  constructor(readonly cents: number) {}
+}
+
+function createApp() {
+  const seen: number[] = [];
+  const app = new Kyrin()
+    .onError((error, c) => {
+      if (error instanceof BadRequestError) {
+        return c.json({ app: error.message }, 400);
+      }
+    })
+    .group("/g", (g) => {
+      g.onError((error, c) => {
+        if (error instanceof NotFoundError) {
+          return c.json({ group: error.message }, 404);
+        }
+      });
+      g.onResponse((_, response) => {
+        seen.push(response.status);
+      });
+      g.serializer(
+        (value) => value instanceof Money,
+        (value: Money) => ({ amount: value.cents / 100 })
+      );
+      g.get("/missing", () => {
+        throw new NotFoundError("nope");
+      });
+      g.get("/bad", () => {
+        throw new BadRequestError("bad");
+      });
+      g.get("/boom", () => {
+        throw new Error("boom");
+      });
+      g.get("/price", () => new Money(250));
+    })
+    .get("/price", () => new Money(250))
+    .get("/missing", () => {
+      throw new NotFoundError("nope");
+    });
+  return { app, seen };
+}
+
+describe("group onError", () => {
+  test("handles errors of the group's routes only", async () => {
+    const { app } = createApp();
+    const scoped = await app.request("/g/missing");
+    expect(scoped.status).toBe(404);
+    expect(await scoped.json()).toEqual({ group: "nope" });
+
+    const outside = await app.request("/missing");
+    expect(outside.headers.get("Content-Type")).toBe(
+      "application/problem+json"
+    );
+  });
+
+  test("passes unhandled errors to the app's onError", async () => {
+    const { app } = createApp();
+    const res = await app.request("/g/bad");
+    expect(await res.json()).toEqual({ app: "bad" });
+    expect((await app.request("/g/boom")).status).toBe(500);
+  });
+});
+
+describe("group onResponse", () => {
+  test("sees error responses too", async () => {
+    const { app, seen } = createApp();
+    await app.request("/g/missing");
+    await app.request("/g/bad");
+    await app.request("/g/boom");
+    await app.request("/g/price");
+    expect(seen).toEqual([404, 400, 500, 200]);
+  });
+});
+
+describe("group serializer", () => {
+  test("applies to the group's routes only", async () => {
+    const { app } = createApp();
+    expect(await (await app.request("/g/price")).json()).toEqual({
+      amount: 2.5,
+    });
+    expect(await (await app.request("/price")).json()).toEqual({
+      cents: 250,
+    });
+  });
+});
+
+describe("group notFound", () => {
+  test("throws instead of being ignored", () => {
+    expect(() =>
+      new Kyrin().group("/g", (g) => {
+        g.notFound(() => "missing");
+      })
+    ).toThrow("notFound() is not supported on groups");
+  });
+});
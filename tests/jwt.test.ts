@@ -0,0 +1,115 @@
+import { describe, expect, test } from "bun:test";
+import { JwtError, Kyrin, jwt, sign, testClient, verify } from "../src/lib";
+
+const secret = "a-test-secret-that-is-long-enough";
+
+const rsa = await crypto.subtle.generateKey(
+  {
+    name: "RSASSA-PKCS1-v1_5",
+    modulusLength: 2048,
+    publicExponent: new Uint8Array([1, 0, 1]),
+    hash: "SHA-256",
+  },
+  true,
+  ["sign", "verify"]
+);
+const ec = await crypto.subtle.generateKey(
+  { name: "ECDSA", namedCurve: "P-256" },
+  true,
+  ["sign", "verify"]
+);
+
+describe("sign / verify", () => {
+  test("HS256 round trip", async () => {
+    const token = await sign({ sub: "1", role: "admin" }, secret, {
+      expiresIn: 60,
+      issuer: "kyrin",
+    });
+    const claims = await verify<{ role: string }>(token, {
+      secret,
+      issuer: "kyrin",
+    });
+    expect(claims.sub).toBe("1");
+    expect(claims.role).toBe("admin");
+    expect(claims.exp).toBe(claims.iat! + 60);
+  });
+
+  test("RS256 and ES256 follow the public key", async () => {
+    const rs = await sign({ sub: "1" }, rsa.privateKey, {
+      algorithm: "RS256",
+    });
+    const es = await sign({ sub: "2" }, ec.privateKey, { algorithm: "ES256" });
+    expect((await verify(rs, { publicKey: rsa.publicKey })).sub).toBe("1");
+    expect((await verify(es, { publicKey: ec.publicKey })).sub).toBe("2");
+  });
+
+  test("rejects an algorithm that doesn't match the key", async () => {
+    // ES256 token against an RSA key
+    const es = await sign({ sub: "1" }, ec.privateKey, { algorithm: "ES256" });
+    await expect(
+      verify(es, { publicKey: rsa.publicKey })
+    ).rejects.toThrow("Unsupported algorithm");
+
+    // HS256 token when only a public key is configured
+    const hs = await sign({ sub: "1" }, secret);
+    await expect(
+      verify(hs, { publicKey: rsa.publicKey })
+    ).rejects.toThrow(JwtError);
+  });
+
+  test("rejects tampered, expired and foreign tokens", async () => {
+    const token = await sign({ sub: "1" }, secret);
+    const [header, , signature] = token.split(".");
+    const payload = Buffer.from(JSON.stringify({ sub: "2" })).toString(
+      "base64url"
+    );
+    await expect(
+      verify(`${header}.${payload}.${signature}`, { secret })
+    ).rejects.toThrow(JwtError);
+
+    const expired = await sign({ sub: "1" }, secret, { expiresIn: -10 });
+    await expect(verify(expired, { secret })).rejects.toThrow(JwtError);
+
+    await expect(
+      verify(token, { secret: "another-secret" })
+    ).rejects.toThrow(JwtError);
+    await expect(verify("not.a.jwt", { secret })).rejects.toThrow(JwtError);
+  });
+
+  test("a token is expired from its exp second on, minus leeway", async () => {
+    const now = await sign({ sub: "1" }, secret, { expiresIn: 0 });
+    await expect(verify(now, { secret })).rejects.toThrow("Token expired");
+
+    const past = await sign({ sub: "1" }, secret, { expiresIn: -2 });
+    expect((await verify(past, { secret, leeway: 60 })).sub).toBe("1");
+  });
+});
+
+describe("jwt() plugin", () => {
+  const app = new Kyrin()
+    .use(jwt<{ role: string }>({ publicKey: rsa.publicKey }))
+    .get("/me", (c) => ({ sub: c.claims.sub, role: c.claims.role }));
+  const client = testClient(app);
+
+  test("puts the claims on the context", async () => {
+    const token = await sign({ sub: "1", role: "admin" }, rsa.privateKey, {
+      algorithm: "RS256",
+    });
+    const res = await client.get("/me", {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    expect(res.body).toEqual({ sub: "1", role: "admin" });
+  });
+
+  test("answers missing and mismatched tokens with 401", async () => {
+    const missing = await client.get("/me");
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("WWW-Authenticate")).toStartWith("Bearer");
+
+    const es = await sign({ sub: "1" }, ec.privateKey, { algorithm: "ES256" });
+    const mismatched = await client.get("/me", {
+      headers: { Authorization: `Bearer ${es}` },
+    });
+    expect(mismatched.status).toBe(401);
+  });
+});
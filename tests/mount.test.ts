@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import { Kyrin, testClient } from "../src/lib";
+
+describe("mount", () => {
+  const api = new Kyrin()
+    .use(async (c, next) => {
+      c.set.headers["X-Api"] = "1";
+      return next();
+    })
+    .notFound((c) => c.json({ error: "api route not found" }, 404))
+    .get("/users/:id", (c) => ({ id: c.params.id }));
+
+  const app = new Kyrin()
+    .get("/", () => "home")
+    .mount("/api", api);
+  const client = testClient(app);
+
+  test("routes under the prefix", async () => {
+    const res = await client.get("/api/users/7");
+    expect(res.body).toEqual({ id: "7" });
+    expect(res.headers.get("X-Api")).toBe("1");
+  });
+
+  test("middleware and notFound stay scoped to the prefix", async () => {
+    const home = await client.get("/");
+    expect(home.headers.get("X-Api")).toBeNull();
+
+    const inside = await client.get("/api/nope");
+    expect(inside.body).toEqual({ error: "api route not found" });
+
+    const outside = await client.get("/nope");
+    expect(outside.status).toBe(404);
+    expect(outside.body).not.toEqual({ error: "api route not found" });
+  });
+
+  test("a sub-app can only be mounted once", () => {
+    expect(() => new Kyrin().mount("/again", api)).toThrow();
+  });
+});
+
+describe("nested mounts", () => {
+  const users = () =>
+    new Kyrin()
+      .get("/x", (c) => ({ path: c.path }))
+      .get("/users/:id", (c) => ({ id: c.params.id }));
+
+  test("a mounted app can mount another one", async () => {
+    const app = new Kyrin().mount("/v1", new Kyrin().mount("/api", users()));
+    const client = testClient(app);
+    expect((await client.get("/v1/api/x")).body).toEqual({
+      path: "/v1/api/x",
+    });
+    expect((await client.get("/v1/api/users/3")).body).toEqual({ id: "3" });
+    expect((await client.get("/v1/x")).status).toBe(404);
+  });
+
+  test("a mount inside a group lives under the group prefix", async () => {
+    const app = new Kyrin().group("/g", (g) => g.mount("/api", users()));
+    const client = testClient(app);
+    expect((await client.get("/g/api/users/5")).body).toEqual({ id: "5" });
+    expect(Object.keys(app.openapi().paths)).toContain("/g/api/users/{id}");
+  });
+});
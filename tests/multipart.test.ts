@@ -0,0 +1,92 @@
+import { describe, expect, test } from "bun:test";
+import { HttpError } from "../src/lib";
+import {
+  multipartBoundary,
+  parseMultipart,
+  type MultipartPart,
+} from "../src/context/multipart";
+
+/** Stream a body in chunks of `size` bytes (to split delimiters) */
+function streamOf(
+  body: string,
+  size = body.length
+): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(body);
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) return controller.close();
+      controller.enqueue(bytes.slice(offset, offset + size));
+      offset += size;
+    },
+  });
+}
+
+async function collect(
+  body: string,
+  boundary: string,
+  chunkSize?: number
+): Promise<(Omit<MultipartPart, "body"> & { content: string })[]> {
+  const parts = [];
+  const stream = streamOf(body, chunkSize);
+  for await (const part of parseMultipart(stream, boundary)) {
+    let content = "";
+    for await (const chunk of part.body) {
+      content += new TextDecoder().decode(chunk);
+    }
+    const { body: _, ...rest } = part;
+    parts.push({ ...rest, content });
+  }
+  return parts;
+}
+
+const BODY = [
+  "--XyZ",
+  'Content-Disposition: form-data; name="title"',
+  "",
+  "Hello",
+  "--XyZ",
+  'Content-Disposition: form-data; name="file"; filename="a.txt"',
+  "Content-Type: text/plain",
+  "",
+  "line 1\r\nline 2 --XyZ not a boundary",
+  "--XyZ--",
+  "",
+].join("\r\n");
+
+describe("parseMultipart", () => {
+  test("reads fields and files", async () => {
+    expect(await collect(BODY, "XyZ")).toEqual([
+      { name: "title", type: "text/plain", content: "Hello" },
+      {
+        name: "file",
+        filename: "a.txt",
+        type: "text/plain",
+        content: "line 1\r\nline 2 --XyZ not a boundary",
+      },
+    ]);
+  });
+
+  test("handles delimiters split across chunks", async () => {
+    for (const size of [1, 3, 7]) {
+      expect(await collect(BODY, "XyZ", size)).toEqual(
+        await collect(BODY, "XyZ")
+      );
+    }
+  });
+
+  test("rejects a truncated body with a 400", async () => {
+    const truncated = BODY.slice(0, BODY.indexOf("line 2"));
+    const error = await collect(truncated, "XyZ").catch((e) => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(400);
+  });
+
+  test("multipartBoundary reads plain and quoted boundaries", () => {
+    expect(multipartBoundary("multipart/form-data; boundary=abc")).toBe("abc");
+    expect(multipartBoundary('multipart/form-data; boundary="a b"')).toBe(
+      "a b"
+    );
+    expect(multipartBoundary("application/json")).toBeUndefined();
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import { Kyrin, testClient } from "../src/lib";
+
+describe("405 Method Not Allowed", () => {
+  const app = new Kyrin()
+    .get("/users", () => [])
+    .post("/users", () => ({ id: 1 }));
+
+  test("lists the allowed methods, HEAD included with GET", async () => {
+    const res = await app.request("/users", { method: "DELETE" });
+    expect(res.status).toBe(405);
+    expect(res.headers.get("Allow")).toBe("GET, POST, HEAD");
+    expect(res.headers.get("Content-Type")).toBe("application/problem+json");
+  });
+
+  test("runs through hooks like any route", async () => {
+    const hooked = new Kyrin()
+      .onResponse((_, res) => {
+        res.headers.set("X-Hooked", "1");
+      })
+      .get("/a", () => "a");
+    const res = await hooked.request("/a", { method: "PUT" });
+    expect(res.status).toBe(405);
+    expect(res.headers.get("X-Hooked")).toBe("1");
+  });
+});
+
+describe("HEAD", () => {
+  test("is answered by the GET route without a body", async () => {
+    const app = new Kyrin().get("/a", (c) => {
+      c.set.headers["X-Route"] = "get";
+      return { ok: true };
+    });
+    const res = await app.request("/a", { method: "HEAD" });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Route")).toBe("get");
+    expect(res.headers.get("Content-Type")).toContain("application/json");
+    expect(await res.text()).toBe("");
+  });
+
+  test("uses an explicit HEAD route first", async () => {
+    const app = new Kyrin()
+      .get("/a", () => "get")
+      .head("/a", () => new Response(null, { headers: { "X-Route": "head" } }));
+    const res = await app.request("/a", { method: "HEAD" });
+    expect(res.headers.get("X-Route")).toBe("head");
+  });
+});
+
+describe("notFound", () => {
+  test("defaults to a Problem Details 404", async () => {
+    const res = await testClient(new Kyrin()).get("/missing");
+    expect(res.status).toBe(404);
+    expect(res.body).toMatchObject({ status: 404, instance: "/missing" });
+  });
+
+  test("custom handler runs with middleware", async () => {
+    const app = new Kyrin()
+      .use(async (c, next) => {
+        c.set.headers["X-Seen"] = "1";
+        return next();
+      })
+      .notFound((c) => c.json({ message: `No ${c.path}` }, 404));
+    const res = await testClient(app).get("/nope");
+    expect(res.status).toBe(404);
+    expect(res.body).toEqual({ message: "No /nope" });
+    expect(res.headers.get("X-Seen")).toBe("1");
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import { Kyrin, openapiDocs } from "../src/lib";
+
+const User = z.object({ id: z.number(), name: z.string() });
+
+const app = new Kyrin()
+  .use(openapiDocs({ info: { title: "Users", version: "2.0.0" } }))
+  .get(
+    "/users/:id",
+    {
+      params: z.object({ id: z.coerce.number() }),
+      query: z.object({
+        fields: z.string().optional(),
+        filter: z.object({ status: z.string() }).optional(),
+      }),
+      response: { 200: User, 404: z.object({ message: z.string() }) },
+      detail: { summary: "Get a user", tags: ["users"] },
+    },
+    () => ({ id: 1, name: "ada" })
+  )
+  .post("/users", { body: User.omit({ id: true }) }, () => null)
+  .get("/files/*path", () => "file")
+  .get("/internal", { detail: { hide: true } }, () => "hidden");
+
+describe("app.openapi()", () => {
+  const doc = app.openapi();
+
+  test("lists routes in OpenAPI path syntax, without hidden ones", () => {
+    expect(doc.openapi).toBe("3.1.0");
+    expect(Object.keys(doc.paths).sort()).toEqual([
+      "/files/{path}",
+      "/users",
+      "/users/{id}",
+    ]);
+  });
+
+  test("describes parameters from the route schemas", () => {
+    const operation = doc.paths["/users/{id}"]!.get!;
+    expect(operation.summary).toBe("Get a user");
+    expect(operation.tags).toEqual(["users"]);
+    expect(operation.parameters).toEqual([
+      { name: "id", in: "path", required: true, schema: { type: "number" } },
+      {
+        name: "fields",
+        in: "query",
+        required: false,
+        schema: { type: "string" },
+      },
+      expect.objectContaining({
+        name: "filter",
+        in: "query",
+        style: "deepObject",
+        explode: true,
+      }),
+    ]);
+  });
+
+  test("describes request bodies and responses per status", () => {
+    const get = doc.paths["/users/{id}"]!.get!;
+    expect(Object.keys(get.responses)).toEqual(["200", "404"]);
+    expect(get.responses["404"]!.description).toBe("Not Found");
+
+    const post = doc.paths["/users"]!.post!;
+    const body = post.requestBody?.content["application/json"]!.schema;
+    expect(body).toMatchObject({ type: "object", required: ["name"] });
+    expect(post.responses).toEqual({ "200": { description: "OK" } });
+  });
+});
+
+describe("openapiDocs()", () => {
+  test("serves the document and the docs page", async () => {
+    const res = await app.request("/openapi.json");
+    const doc = (await res.json()) as { info: object; paths: object };
+    expect(doc.info).toEqual({ title: "Users", version: "2.0.0" });
+    expect(Object.keys(doc.paths)).not.toContain("/openapi.json");
+
+    const page = await app.request("/docs");
+    expect(page.headers.get("Content-Type")).toContain("text/html");
+    expect(await page.text()).toContain("<title>Users</title>");
+  });
+});
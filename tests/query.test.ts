@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import { Kyrin, appendQuery, parseQuery, testClient, z } from "../src/lib";
+
+const parse = (query: string, options?: Parameters<typeof parseQuery>[1]) =>
+  parseQuery(new URLSearchParams(query), options);
+
+describe("parseQuery", () => {
+  test("bracket and dot keys nest", () => {
+    expect(parse("filter[status]=open&sort.by=date&page=2")).toEqual({
+      filter: { status: "open" },
+      sort: { by: "date" },
+      page: "2",
+    });
+  });
+
+  test("repeated keys and [] become arrays", () => {
+    expect(parse("tag=a&tag=b&id[]=1&id[]=2")).toEqual({
+      tag: ["a", "b"],
+      id: ["1", "2"],
+    });
+  });
+
+  test("indexed objects become arrays of objects", () => {
+    expect(parse("items[0][id]=1&items[1][id]=2&items[1][qty]=3")).toEqual({
+      items: [{ id: "1" }, { id: "2", qty: "3" }],
+    });
+  });
+
+  test("sparse and large indexes", () => {
+    expect(parse("a[1]=x")).toEqual({ a: ["x"] });
+    expect(parse("a[100]=x")).toEqual({ a: { "100": "x" } });
+    expect(parse("a[3]=x", { arrayLimit: 2 })).toEqual({ a: { "3": "x" } });
+  });
+
+  test("prototype keys are dropped", () => {
+    const result = parse("__proto__[polluted]=1&a[constructor][x]=1&ok=1");
+    expect(result).toEqual({ ok: "1" });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  test("depth limit keeps the rest of the key literal", () => {
+    expect(parse("a[b][c][d]=1", { depth: 2 })).toEqual({
+      a: { b: { c: { "[d]": "1" } } },
+    });
+  });
+
+  test("unbalanced brackets stay as written", () => {
+    expect(parse("a[b=1")).toEqual({ "a[b": "1" });
+  });
+
+  test("appendQuery writes what parseQuery reads", () => {
+    const value = {
+      filter: { status: "open" },
+      tag: ["a", "b"],
+      items: [{ id: "1" }],
+    };
+    const params = new URLSearchParams();
+    appendQuery(params, value);
+    expect(parseQuery(params)).toEqual(value);
+  });
+});
+
+describe("query schemas", () => {
+  test("nested values are coerced to the schema", async () => {
+    const app = new Kyrin().get(
+      "/items",
+      {
+        query: z.object({
+          page: z.number(),
+          active: z.boolean(),
+          ids: z.array(z.number()),
+          filter: z.object({ min: z.number() }),
+        }),
+      },
+      (c) => c.valid("query")
+    );
+    const res = await testClient(app).get(
+      "/items?page=2&active=true&ids=1&filter[min]=5"
+    );
+    expect(res.body).toEqual({
+      page: 2,
+      active: true,
+      ids: [1],
+      filter: { min: 5 },
+    });
+  });
+});
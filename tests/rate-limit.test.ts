@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import { Kyrin, MemoryRateLimitStore, rateLimit, testClient } from "../src/lib";
+import { ALGORITHMS } from "../src/rate-limit/algorithms";
+import type { RateLimitAlgorithm, RateLimitState } from "../src/lib";
+
+const WINDOW = 1000;
+
+/** Run requests at the given times; returns whether each was allowed */
+function run(algorithm: RateLimitAlgorithm, limit: number, times: number[]) {
+  const { consume } = ALGORITHMS[algorithm];
+  let state: RateLimitState | undefined;
+  return times.map((now) => {
+    const consumed = consume(state, now, limit, WINDOW);
+    state = consumed.state;
+    return consumed.result;
+  });
+}
+
+describe("fixed window", () => {
+  test("allows `limit` requests, then resets with the window", () => {
+    const results = run("fixed-window", 2, [0, 10, 20, 999, 1000]);
+    expect(results.map((r) => r.allowed)).toEqual([
+      true,
+      true,
+      false,
+      false,
+      true,
+    ]);
+    expect(results[2]!.retryAfter).toBe(980);
+    expect(results[1]!.remaining).toBe(0);
+  });
+});
+
+describe("sliding window", () => {
+  test("weights the previous window by its overlap", () => {
+    // 4 requests in [0, 1000); at 1500 half of them still count
+    const results = run("sliding-window", 4, [0, 1, 2, 3, 1500, 1501, 1502]);
+    expect(results.map((r) => r.allowed)).toEqual([
+      true,
+      true,
+      true,
+      true,
+      true,
+      true,
+      false,
+    ]);
+    expect(results[6]!.retryAfter).toBeGreaterThan(0);
+  });
+
+  test("forgets windows older than two windows", () => {
+    const results = run("sliding-window", 1, [0, 2500]);
+    expect(results.every((r) => r.allowed)).toBe(true);
+  });
+});
+
+describe("token bucket", () => {
+  test("allows a burst up to the capacity, then refills steadily", () => {
+    const results = run("token-bucket", 2, [0, 0, 0, 500, 500]);
+    expect(results.map((r) => r.allowed)).toEqual([
+      true,
+      true,
+      false,
+      true,
+      false,
+    ]);
+    expect(results[2]!.retryAfter).toBe(500);
+  });
+});
+
+describe("rateLimit() plugin", () => {
+  test("sends RateLimit headers and a 429 with Retry-After", async () => {
+    const app = new Kyrin()
+      .use(rateLimit({ limit: 1, key: () => "client" }))
+      .get("/", () => "ok");
+    const client = testClient(app);
+
+    const first = await client.get("/");
+    expect(first.status).toBe(200);
+    expect(first.headers.get("RateLimit-Remaining")).toBe("0");
+
+    const second = await client.get("/");
+    expect(second.status).toBe(429);
+    expect(second.headers.get("Retry-After")).toBe("60");
+  });
+
+  test("its middleware works on a single route", async () => {
+    const login = rateLimit({ limit: 1, key: () => "client" });
+    const app = new Kyrin()
+      .post("/login", login.middleware, () => "ok")
+      .get("/", () => "ok");
+    const client = testClient(app);
+
+    expect((await client.post("/login")).status).toBe(200);
+    expect((await client.post("/login")).status).toBe(429);
+    expect((await client.get("/")).status).toBe(200);
+  });
+
+  test("closes its store when the app stops", async () => {
+    let closed = false;
+    const store = new MemoryRateLimitStore();
+    store.close = () => {
+      closed = true;
+    };
+    const app = new Kyrin().use(rateLimit({ store }));
+    app.listen(0);
+    await app.stop();
+    expect(closed).toBe(true);
+  });
+});
@@ -0,0 +1,116 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Kyrin } from "../src/lib";
+
+const dir = await mkdtemp(join(tmpdir(), "kyrin-response-"));
+await Bun.write(join(dir, "hello.txt"), "hello file");
+afterAll(() => rm(dir, { recursive: true, force: true }));
+
+async function* generate() {
+  yield "a";
+  yield new TextEncoder().encode("b");
+}
+
+const app = new Kyrin()
+  .get("/file", () => Bun.file(join(dir, "hello.txt")))
+  .get("/missing", () => Bun.file(join(dir, "nope.txt")))
+  .get("/bytes", () => new Uint8Array([1, 2, 3]))
+  .get("/buffer", () => new Uint8Array([0, 1, 2, 3]).buffer.slice(1))
+  .get("/stream", () => new Blob(["streamed"]).stream())
+  .get("/iterable", () => generate())
+  .get("/params", () => new URLSearchParams({ a: "1" }))
+  .get("/empty", (c) => {
+    c.set.headers["X-Empty"] = "yes";
+    return null;
+  })
+  .get("/accepted", (c) => {
+    c.set.status = 202;
+    return undefined;
+  })
+  .get("/date", () => ({ at: new Date(0) }))
+  .serializer(
+    (value) => value instanceof Map,
+    (value: Map<string, unknown>) => Object.fromEntries(value)
+  )
+  .get("/map", () => new Map([["a", 1]]));
+
+describe("response conversion", () => {
+  test("files keep their type and size", async () => {
+    const res = await app.request("/file");
+    expect(res.headers.get("Content-Type")).toStartWith("text/plain");
+    expect(res.headers.get("Content-Length")).toBe("10");
+    expect(await res.text()).toBe("hello file");
+
+    expect((await app.request("/missing")).status).toBe(404);
+  });
+
+  test("binary data is application/octet-stream", async () => {
+    const bytes = await app.request("/bytes");
+    expect(bytes.headers.get("Content-Type")).toBe("application/octet-stream");
+    expect(bytes.headers.get("Content-Length")).toBe("3");
+    expect(new Uint8Array(await bytes.arrayBuffer())).toEqual(
+      new Uint8Array([1, 2, 3])
+    );
+
+    const buffer = await app.request("/buffer");
+    expect(new Uint8Array(await buffer.arrayBuffer())).toEqual(
+      new Uint8Array([1, 2, 3])
+    );
+  });
+
+  test("streams and async iterables are streamed", async () => {
+    expect(await (await app.request("/stream")).text()).toBe("streamed");
+    expect(await (await app.request("/iterable")).text()).toBe("ab");
+  });
+
+  test("URLSearchParams is encoded by the Response", async () => {
+    const res = await app.request("/params");
+    expect(res.headers.get("Content-Type")).toStartWith(
+      "application/x-www-form-urlencoded"
+    );
+    expect(await res.text()).toBe("a=1");
+  });
+
+  test("null keeps headers; undefined keeps a changed status", async () => {
+    const empty = await app.request("/empty");
+    expect(empty.status).toBe(204);
+    expect(empty.headers.get("X-Empty")).toBe("yes");
+
+    expect((await app.request("/accepted")).status).toBe(202);
+  });
+
+  test("objects are JSON, unless a serializer matches", async () => {
+    expect(await (await app.request("/date")).json()).toEqual({
+      at: "1970-01-01T00:00:00.000Z",
+    });
+    expect(await (await app.request("/map")).json()).toEqual({ a: 1 });
+  });
+});
+
+describe("onResponse", () => {
+  test("can replace the response, including error responses", async () => {
+    const app = new Kyrin()
+      .onResponse((c, response) => {
+        if (response.status === 404) {
+          return new Response(`nothing at ${c.path}`, { status: 404 });
+        }
+        const headers = new Headers(response.headers);
+        headers.set("X-Seen", "1");
+        return new Response(response.body, { status: 200, headers });
+      })
+      .onResponse((_, response) => {
+        // Later hooks see the replaced response
+        response.headers.set("X-Second", response.headers.get("X-Seen")!);
+      })
+      .get("/", () => "ok");
+
+    const ok = await app.request("/");
+    expect(ok.headers.get("X-Second")).toBe("1");
+    expect(await ok.text()).toBe("ok");
+
+    const missing = await app.request("/nope");
+    expect(await missing.text()).toBe("nothing at /nope");
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+import { Kyrin, secureHeaders, secureHeadersOverride } from "../src/lib";
+
+describe("secureHeaders()", () => {
+  test("adds the default headers, also to 404s", async () => {
+    const app = new Kyrin().use(secureHeaders()).get("/", () => "ok");
+
+    for (const path of ["/", "/missing"]) {
+      const res = await app.request(path);
+      expect(res.headers.get("Strict-Transport-Security")).toBe(
+        "max-age=31536000; includeSubDomains"
+      );
+      expect(res.headers.get("X-Content-Type-Options")).toBe("nosniff");
+      expect(res.headers.get("X-Frame-Options")).toBe("SAMEORIGIN");
+      expect(res.headers.get("Referrer-Policy")).toBe("no-referrer");
+      expect(res.headers.get("Permissions-Policy")).toBe(
+        "camera=(), microphone=(), geolocation=()"
+      );
+      expect(res.headers.get("Cross-Origin-Opener-Policy")).toBe(
+        "same-origin"
+      );
+      expect(res.headers.has("Content-Security-Policy")).toBe(false);
+    }
+  });
+
+  test("turns headers off and keeps the handler's own", async () => {
+    const app = new Kyrin()
+      .use(secureHeaders({ strictTransportSecurity: false }))
+      .get("/", (c) => {
+        c.set.headers["X-Frame-Options"] = "DENY";
+        return "ok";
+      });
+
+    const res = await app.request("/");
+    expect(res.headers.has("Strict-Transport-Security")).toBe(false);
+    expect(res.headers.get("X-Frame-Options")).toBe("DENY");
+  });
+
+  test("puts a fresh nonce in the CSP and on c.nonce", async () => {
+    const app = new Kyrin()
+      .use(
+        secureHeaders({
+          contentSecurityPolicy: {
+            directives: {
+              defaultSrc: ["'self'"],
+              scriptSrc: ["'self'", "'nonce'"],
+              upgradeInsecureRequests: true,
+            },
+          },
+        })
+      )
+      .get("/", (c) => c.nonce);
+
+    const first = await app.request("/");
+    const nonce = await first.text();
+    expect(first.headers.get("Content-Security-Policy")).toBe(
+      `default-src 'self'; script-src 'self' 'nonce-${nonce}'; ` +
+        "upgrade-insecure-requests"
+    );
+    expect(await (await app.request("/")).text()).not.toBe(nonce);
+  });
+
+  test("adds headers when an onRequest hook answers early", async () => {
+    const app = new Kyrin()
+      .use(
+        secureHeaders({
+          contentSecurityPolicy: { directives: { scriptSrc: ["'nonce'"] } },
+        })
+      )
+      .onRequest(() => new Response("early", { status: 503 }))
+      .get("/", () => "ok");
+
+    const res = await app.request("/");
+    expect(res.status).toBe(503);
+    expect(res.headers.get("X-Content-Type-Options")).toBe("nosniff");
+    expect(res.headers.get("Content-Security-Policy")).toMatch(
+      /^script-src 'nonce-[\w+/=-]+'$/
+    );
+  });
+
+  test("secureHeadersOverride() changes them per route", async () => {
+    const app = new Kyrin()
+      .use(
+        secureHeaders({
+          contentSecurityPolicy: {
+            directives: { defaultSrc: ["'self'"] },
+            reportOnly: true,
+          },
+        })
+      )
+      .get(
+        "/widget",
+        secureHeadersOverride({
+          xFrameOptions: false,
+          contentSecurityPolicy: {
+            directives: { frameAncestors: ["https://partner.example"] },
+          },
+        }),
+        () => "widget"
+      )
+      .get("/", () => "home");
+
+    const widget = await app.request("/widget");
+    expect(widget.headers.has("X-Frame-Options")).toBe(false);
+    expect(widget.headers.get("Content-Security-Policy-Report-Only")).toBe(
+      "default-src 'self'; frame-ancestors https://partner.example"
+    );
+
+    const home = await app.request("/");
+    expect(home.headers.get("X-Frame-Options")).toBe("SAMEORIGIN");
+  });
+});
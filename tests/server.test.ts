@@ -0,0 +1,58 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import { Kyrin } from "../src/lib";
+
+spyOn(console, "log").mockImplementation(() => {});
+
+describe("listen() / stop()", () => {
+  test("listen(0) picks a free port and serves requests", async () => {
+    const app = new Kyrin().get("/port", (c) => ({ port: c.server?.port }));
+    const server = app.listen(0);
+    try {
+      expect(server.port).toBeGreaterThan(0);
+      expect(app.server).toBe(server);
+      const res = await fetch(new URL("/port", server.url));
+      expect(await res.json()).toEqual({ port: server.port });
+      expect(() => app.listen(0)).toThrow("already running");
+    } finally {
+      await app.stop();
+    }
+    expect(app.server).toBeUndefined();
+  });
+
+  test("runs lifecycle hooks, including those of mounted apps", async () => {
+    const events: string[] = [];
+    const admin = new Kyrin()
+      .onStart(() => void events.push("admin start"))
+      .onStop(() => void events.push("admin stop"));
+    const app = new Kyrin()
+      .onStart((server) => {
+        events.push(`start ${server.port !== undefined}`);
+      })
+      .onStop(async () => {
+        await Bun.sleep(1);
+        events.push("stop");
+      })
+      .mount("/admin", admin);
+
+    app.listen(0);
+    await app.stop();
+    expect(events).toEqual(["start true", "admin start", "stop", "admin stop"]);
+
+    // Stopping twice is a no-op
+    await app.stop();
+    expect(events).toHaveLength(4);
+  });
+
+  test("graceful stop waits for in-flight requests", async () => {
+    const app = new Kyrin().get("/slow", async () => {
+      await Bun.sleep(50);
+      return "done";
+    });
+    const server = app.listen(0);
+    const pending = fetch(new URL("/slow", server.url));
+    await Bun.sleep(10);
+
+    await app.stop({ timeout: 1000 });
+    expect(await (await pending).text()).toBe("done");
+  });
+});
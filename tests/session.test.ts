@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import {
+  Kyrin,
+  MemorySessionStore,
+  SQLiteSessionStore,
+  database,
+  session,
+  testClient,
+  type SessionStore,
+} from "../src/lib";
+
+function createApp(store: SessionStore) {
+  return new Kyrin()
+    .use(session<{ userId: number; visits: number }>({ store }))
+    .get("/visit", (c) => {
+      const visits = (c.session.get("visits") ?? 0) + 1;
+      c.session.set("visits", visits);
+      return { visits };
+    })
+    .post("/login", (c) => {
+      c.session.regenerate();
+      c.session.set("userId", 1);
+      return { id: c.session.id };
+    })
+    .get("/me", (c) => ({ userId: c.session.get("userId") ?? null }))
+    .post("/logout", (c) => {
+      c.session.destroy();
+      return null;
+    });
+}
+
+const stores: [string, () => SessionStore][] = [
+  ["memory", () => new MemorySessionStore()],
+  ["sqlite", () => new SQLiteSessionStore(database("sqlite::memory:"))],
+];
+
+for (const [name, createStore] of stores) {
+  describe(`session() with the ${name} store`, () => {
+    test("keeps data between requests", async () => {
+      const client = testClient(createApp(createStore()));
+      expect((await client.get("/visit")).body).toEqual({ visits: 1 });
+      expect((await client.get("/visit")).body).toEqual({ visits: 2 });
+      expect(client.cookies.get("sid")).toBeString();
+    });
+
+    test("regenerates the id on login and forgets it on logout", async () => {
+      const client = testClient(createApp(createStore()));
+      await client.get("/visit");
+      const before = client.cookies.get("sid");
+
+      const login = await client.post("/login");
+      expect(login.body).toEqual({ id: client.cookies.get("sid") });
+      expect(client.cookies.get("sid")).not.toBe(before);
+      expect((await client.get("/me")).body).toEqual({ userId: 1 });
+
+      const logout = await client.post("/logout");
+      expect(logout.headers.get("Set-Cookie")).toContain("Max-Age=0");
+      expect((await client.get("/me")).body).toEqual({ userId: null });
+    });
+  });
+}
+
+describe("session()", () => {
+  test("sends no cookie for an untouched new session", async () => {
+    const app = createApp(new MemorySessionStore());
+    const res = await app.request("/me");
+    expect(res.headers.has("Set-Cookie")).toBe(false);
+  });
+
+  test("sets an HttpOnly, Lax cookie", async () => {
+    const res = await createApp(new MemorySessionStore()).request("/visit");
+    const cookie = res.headers.get("Set-Cookie")!;
+    expect(cookie).toStartWith("sid=");
+    expect(cookie).toContain("HttpOnly");
+    expect(cookie).toContain("SameSite=Lax");
+  });
+});
@@ -0,0 +1,104 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gzipSync } from "node:zlib";
+import { Kyrin, NotFoundError, serveStatic } from "../src/lib";
+
+const dir = await mkdtemp(join(tmpdir(), "kyrin-static-"));
+const site = join(dir, "site");
+const script = "console.log('kyrin');".repeat(10);
+await Bun.write(join(site, "index.html"), "<h1>home</h1>");
+await Bun.write(join(site, "digits.txt"), "0123456789");
+await Bun.write(join(site, "app.js"), script);
+await Bun.write(join(site, "app.js.gz"), gzipSync(script));
+await Bun.write(join(site, ".env"), "SECRET=1");
+await Bun.write(join(dir, "outside.txt"), "outside");
+afterAll(() => rm(dir, { recursive: true, force: true }));
+
+const app = new Kyrin()
+  .get("/api/ping", () => "pong")
+  .use(serveStatic({ root: site, fallback: "index.html" }));
+
+describe("serveStatic()", () => {
+  test("serves files and the index, after routes", async () => {
+    const digits = await app.request("/digits.txt");
+    expect(await digits.text()).toBe("0123456789");
+    expect(digits.headers.get("Accept-Ranges")).toBe("bytes");
+    expect(await (await app.request("/")).text()).toBe("<h1>home</h1>");
+    expect(await (await app.request("/api/ping")).text()).toBe("pong");
+  });
+
+  test("answers conditional requests with 304", async () => {
+    const first = await app.request("/digits.txt");
+    const etag = first.headers.get("ETag")!;
+    expect(etag).toMatch(/^"/);
+
+    const cached = await app.request("/digits.txt", {
+      headers: { "If-None-Match": etag },
+    });
+    expect(cached.status).toBe(304);
+    expect(await cached.text()).toBe("");
+  });
+
+  test("serves single byte ranges", async () => {
+    const part = await app.request("/digits.txt", {
+      headers: { Range: "bytes=2-4" },
+    });
+    expect(part.status).toBe(206);
+    expect(part.headers.get("Content-Range")).toBe("bytes 2-4/10");
+    expect(await part.text()).toBe("234");
+
+    const suffix = await app.request("/digits.txt", {
+      headers: { Range: "bytes=-3" },
+    });
+    expect(await suffix.text()).toBe("789");
+
+    const outOfRange = await app.request("/digits.txt", {
+      headers: { Range: "bytes=20-" },
+    });
+    expect(outOfRange.status).toBe(416);
+    expect(outOfRange.headers.get("Content-Range")).toBe("bytes */10");
+  });
+
+  test("serves precompressed siblings when accepted", async () => {
+    const res = await app.request("/app.js", {
+      headers: { "Accept-Encoding": "gzip" },
+    });
+    expect(res.headers.get("Content-Encoding")).toBe("gzip");
+    expect(res.headers.get("Vary")).toContain("Accept-Encoding");
+    expect(res.headers.get("Content-Type")).toStartWith("text/javascript");
+  });
+
+  test("never serves dotfiles or paths outside root", async () => {
+    const json = { headers: { Accept: "application/json" } };
+    expect((await app.request("/.env", json)).status).toBe(404);
+    const traversal = await app.request("/..%2f..%2foutside.txt", json);
+    expect(traversal.status).toBe(404);
+    expect(await traversal.text()).not.toBe("outside");
+  });
+
+  test("falls back to the SPA page for HTML page loads only", async () => {
+    const page = await app.request("/some/page", {
+      headers: { Accept: "text/html" },
+    });
+    expect(await page.text()).toBe("<h1>home</h1>");
+
+    const api = await app.request("/api/nope", {
+      headers: { Accept: "application/json" },
+    });
+    expect(api.status).toBe(404);
+  });
+});
+
+describe("app.fallback()", () => {
+  test("fallbacks run before notFound and can pass", async () => {
+    const app = new Kyrin()
+      .fallback((c) => (c.path === "/legacy" ? "legacy" : undefined))
+      .notFound(() => {
+        throw new NotFoundError("gone");
+      });
+    expect(await (await app.request("/legacy")).text()).toBe("legacy");
+    expect((await app.request("/other")).status).toBe(404);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import { Kyrin } from "../src/lib";
+
+const app = new Kyrin()
+  .get("/text", (c) =>
+    c.streamText(async (stream) => {
+      await stream.writeln("Hello");
+      await stream.write("World");
+    })
+  )
+  .get("/events", (c) =>
+    c.sse(
+      async (stream) => {
+        await stream.send({ event: "tick", id: 1, data: { n: 1 } });
+        await stream.send({ data: "a\r\nb\rc\nd", retry: 500 });
+        await stream.comment("one\ntwo");
+      },
+      { heartbeat: 0 }
+    )
+  )
+  .get("/inject", (c) =>
+    c.sse(
+      async (stream) => {
+        for (const message of [
+          { event: "x\ndata: evil", data: 1 },
+          { id: "1\r\nevent: evil", data: 1 },
+        ]) {
+          await stream.send(message).catch((error: Error) => {
+            return stream.comment(error.message);
+          });
+        }
+      },
+      { heartbeat: 0 }
+    )
+  );
+
+describe("c.streamText()", () => {
+  test("streams text until the callback resolves", async () => {
+    const res = await app.request("/text");
+    expect(res.headers.get("Content-Type")).toBe("text/plain");
+    expect(await res.text()).toBe("Hello\nWorld");
+  });
+});
+
+describe("c.sse()", () => {
+  test("frames events, data lines and comments", async () => {
+    const res = await app.request("/events");
+    expect(res.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(await res.text()).toBe(
+      [
+        "event: tick",
+        "id: 1",
+        'data: {"n":1}',
+        "",
+        "retry: 500",
+        "data: a",
+        "data: b",
+        "data: c",
+        "data: d",
+        "",
+        ": one",
+        ": two",
+        "",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("rejects line breaks in event and id", async () => {
+    const res = await app.request("/inject");
+    expect(await res.text()).toBe(
+      [
+        ": SSE event must not contain line breaks",
+        "",
+        ": SSE id must not contain line breaks",
+        "",
+        "",
+      ].join("\n")
+    );
+  });
+});
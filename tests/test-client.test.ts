@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { Kyrin, testClient } from "../src/lib";
+
+const app = new Kyrin()
+  .get("/hello", (c) => ({ hello: c.query("name") ?? "world" }))
+  .post("/echo", async (c) => c.json(await c.body(), 201))
+  .post("/form", async (c) => {
+    const form = await c.req.formData();
+    return { name: form.get("name") };
+  })
+  .post("/login", (c) => {
+    c.setCookie("sid", "abc", { httpOnly: true });
+    return null;
+  })
+  .get("/whoami", (c) => ({ sid: c.cookie("sid") ?? null }));
+
+describe("app.request / app.fetch", () => {
+  test("run the full pipeline without a server", async () => {
+    const res = await app.request("/hello?name=kyrin");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ hello: "kyrin" });
+
+    const fetched = await app.fetch(new Request("http://localhost/hello"));
+    expect(await fetched.json()).toEqual({ hello: "world" });
+  });
+
+  test("accept a Request and init", async () => {
+    const res = await app.request("/echo", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ a: 1 }),
+    });
+    expect(res.status).toBe(201);
+    expect(await res.json()).toEqual({ a: 1 });
+  });
+});
+
+describe("testClient", () => {
+  test("sends JSON, forms and query objects", async () => {
+    const client = testClient(app);
+
+    const json = await client.post("/echo", { json: { a: [1, 2] } });
+    expect(json.status).toBe(201);
+    expect(json.body).toEqual({ a: [1, 2] });
+
+    const form = await client.post("/form", { form: { name: "kyrin" } });
+    expect(form.body).toEqual({ name: "kyrin" });
+
+    const query = await client.get("/hello", { query: { name: "q" } });
+    expect(query.body).toEqual({ hello: "q" });
+  });
+
+  test("keeps cookies between requests", async () => {
+    const client = testClient(app);
+    expect((await client.get("/whoami")).body).toEqual({ sid: null });
+
+    const login = await client.post("/login");
+    expect(login.cookies).toEqual({ sid: "abc" });
+    expect((await client.get("/whoami")).body).toEqual({ sid: "abc" });
+  });
+});
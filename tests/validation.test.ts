@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { Kyrin, testClient, z } from "../src/lib";
+
+const app = new Kyrin()
+  .get(
+    "/users/:id",
+    { params: z.object({ id: z.coerce.number().int() }) },
+    (c) => ({ id: c.params.id })
+  )
+  .get(
+    "/search",
+    { query: z.object({ q: z.string().min(1), page: z.number().optional() }) },
+    (c) => c.valid("query")
+  )
+  .post(
+    "/users",
+    { body: z.object({ name: z.string(), age: z.number().min(0) }) },
+    (c) => c.json(c.valid("body"), 201)
+  );
+const client = testClient(app);
+
+describe("validation", () => {
+  test("valid input reaches the handler, coerced", async () => {
+    expect((await client.get("/users/42")).body).toEqual({ id: 42 });
+    expect(
+      (await client.get("/search", { query: { q: "kyrin", page: "2" } })).body
+    ).toEqual({ q: "kyrin", page: 2 });
+  });
+
+  test("invalid params and query get a 400", async () => {
+    const params = await client.get("/users/abc");
+    expect(params.status).toBe(400);
+
+    const query = await client.get("/search");
+    expect(query.status).toBe(400);
+    expect(query.headers.get("Content-Type")).toBe("application/problem+json");
+  });
+
+  test("an invalid body gets a 422 with the issues", async () => {
+    const res = await client.post("/users", { json: { name: "A", age: -1 } });
+    expect(res.status).toBe(422);
+    expect(JSON.stringify(res.body)).toContain("age");
+  });
+
+  test("a malformed JSON body is a 400", async () => {
+    const res = await app.request("/users", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{",
+    });
+    expect(res.status).toBe(400);
+  });
+
+  test("a valid body gets through", async () => {
+    const res = await client.post("/users", { json: { name: "A", age: 3 } });
+    expect(res.status).toBe(201);
+    expect(res.body).toEqual({ name: "A", age: 3 });
+  });
+});
@@ -0,0 +1,91 @@
+import { afterAll, describe, expect, spyOn, test } from "bun:test";
+import { Kyrin } from "../src/lib";
+
+spyOn(console, "log").mockImplementation(() => {});
+
+const app = new Kyrin()
+  .use(async (c, next) => {
+    c.store.user = c.query("user") ?? "anonymous";
+    await next();
+  })
+  .ws<{ name: string }>("/rooms/:room", {
+    upgrade: (c) => {
+      if (c.query("user") === "banned") {
+        return new Response("Forbidden", { status: 403 });
+      }
+      return { name: c.store.user as string };
+    },
+    open: (ws) => {
+      ws.subscribe(ws.data.params.room!);
+      ws.send(`welcome ${ws.data.data.name}`);
+    },
+    message: (ws, message) => {
+      ws.publish(ws.data.params.room!, `${ws.data.data.name}: ${message}`);
+    },
+  });
+app.post("/announce/:room", async (c) => ({
+  sent: app.publish(c.param("room")!, await c.text()),
+}));
+
+const server = app.listen(0);
+afterAll(() => app.stop({ graceful: false }));
+
+/** Connect and collect messages; resolves once the socket is open */
+async function connect(path: string) {
+  const url = new URL(path, server.url);
+  url.protocol = "ws:";
+  const socket = new WebSocket(url);
+  const messages: string[] = [];
+  socket.onmessage = (event) => messages.push(String(event.data));
+  await new Promise((resolve, reject) => {
+    socket.onopen = resolve;
+    socket.onerror = reject;
+  });
+  return { socket, messages };
+}
+
+async function until(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !check(); i++) await Bun.sleep(5);
+  expect(check()).toBe(true);
+}
+
+describe("app.ws()", () => {
+  test("upgrades with params, store and upgrade data", async () => {
+    const { socket, messages } = await connect("/rooms/a?user=ada");
+    await until(() => messages.length === 1);
+    expect(messages).toEqual(["welcome ada"]);
+    socket.close();
+  });
+
+  test("publishes to topic subscribers", async () => {
+    const ada = await connect("/rooms/b?user=ada");
+    const bob = await connect("/rooms/b?user=bob");
+    const other = await connect("/rooms/c?user=eve");
+
+    ada.socket.send("hi");
+    await until(() => bob.messages.includes("ada: hi"));
+
+    const res = await fetch(new URL("/announce/b", server.url), {
+      method: "POST",
+      body: "news",
+    });
+    const { sent } = (await res.json()) as { sent: number };
+    expect(sent).toBeGreaterThan(0);
+    await until(() => ada.messages.includes("news"));
+    expect(other.messages).toEqual(["welcome eve"]);
+
+    for (const { socket } of [ada, bob, other]) socket.close();
+  });
+
+  test("a Response from upgrade rejects the connection", async () => {
+    const res = await fetch(new URL("/rooms/a?user=banned", server.url), {
+      headers: {
+        Connection: "Upgrade",
+        Upgrade: "websocket",
+        "Sec-WebSocket-Key": "dGhlIHNhbXBsZSBub25jZQ==",
+        "Sec-WebSocket-Version": "13",
+      },
+    });
+    expect(res.status).toBe(403);
+  });
+});